@@ -31,3 +31,16 @@ export const sing = (name: string, song: string): string => {
 export const buildNest = (name: string, location: string): string => {
   return `Bird ${name} is building a cozy nest in the ${location}`;
 };
+
+/**
+ * Follow a bird's migration, reporting each stop as it is reached
+ * @param name - The bird's name
+ * @param stops - Number of stops on the route
+ * @returns Progress messages, one per stop
+ */
+export async function* migrate(name: string, stops: number = 5) {
+  for (let stop = 1; stop <= stops; stop++) {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    yield `Bird ${name} reached stop ${stop} of ${stops}`;
+  }
+}
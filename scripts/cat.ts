@@ -35,20 +35,20 @@ export const purr = (name: string, volume: number): string => {
 /**
  * Make a cat sleep
  * @param name - The cat's name
- * @param location - Where the cat sleeps
+ * @param location - Where the cat sleeps (defaults to the couch)
  * @returns Sleeping message
  */
-export const sleep = (name: string, location: string): string => {
+export const sleep = (name: string, location?: string): string => {
   return `Cat ${name} is sleeping peacefully on the ${location || "couch"}`;
 };
 
 /**
  * Make a cat meow
  * @param name - The cat's name
- * @param times - Number of times to meow
+ * @param times - Number of times to meow (defaults to 1)
  * @returns Meowing message
  */
-export const meow = (name: string, times: number): string => {
+export const meow = (name: string, times?: number): string => {
   const meows = "meow! ".repeat(times || 1);
   return `Cat ${name} is meowing: ${meows.trim()}`;
 };
@@ -34,10 +34,10 @@ export const swim = (name: string, location: string): string => {
 /**
  * Make a duck quack
  * @param name - The duck's name
- * @param times - Number of times to quack
+ * @param times - Number of times to quack (defaults to 1)
  * @returns Quacking message
  */
-export const quack = (name: string, times: number): string => {
+export const quack = (name: string, times?: number): string => {
     const quacks = 'quack! '.repeat(times || 1);
     return `Duck ${name} is quacking: ${quacks.trim()}`;
 };
\ No newline at end of file
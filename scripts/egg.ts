@@ -10,3 +10,25 @@
 export const lay = (name: string): string => {
   return `Egg ${name} is laying`;
 };
+
+/**
+ * Inspect a batch of eggs
+ * @param name - The egg's name
+ * @param count - Number of eggs in the batch
+ * @returns Batch details with sizes, colors and laying date
+ */
+export const inspect = (name: string, count: number = 3) => {
+  const sizes = new Map<string, number>();
+  for (let i = 1; i <= count; i++) {
+    sizes.set(`${name}-${i}`, 50 + i * 5);
+  }
+
+  return {
+    name,
+    laidAt: new Date(),
+    sizes,
+    colors: new Set(['white', 'brown']),
+    totalWeight: BigInt(count) * 55n,
+    hatched: undefined,
+  };
+};
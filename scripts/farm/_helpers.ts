@@ -0,0 +1,11 @@
+/**
+ * Shared helpers for farm modules. Files starting with an underscore are not
+ * loaded as modules themselves.
+ */
+
+/**
+ * Repeat a sound a number of times
+ */
+export const repeatSound = (sound: string, times: number): string => {
+  return Array(Math.max(1, times)).fill(sound).join(' ');
+};
@@ -0,0 +1,25 @@
+/**
+ * Cow module, loaded under the farm namespace as farm.cow
+ */
+
+import { repeatSound } from './_helpers';
+
+/**
+ * Make a cow moo
+ * @param name - The cow's name
+ * @param times - Number of times to moo
+ * @returns Mooing message
+ */
+export const moo = (name: string, times: number = 1): string => {
+  return `Cow ${name} says: ${repeatSound('moo!', times)}`;
+};
+
+/**
+ * Milk a cow
+ * @param name - The cow's name
+ * @param liters - Amount of milk in liters
+ * @returns Milking message
+ */
+export const milk = (name: string, liters: number): string => {
+  return `Cow ${name} gave ${liters} liters of milk`;
+};
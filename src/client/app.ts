@@ -10,6 +10,21 @@
 interface Parameter {
   name: string;
   type: string;
+  optional?: boolean;
+  defaultValue?: string;
+  rest?: boolean;
+  description?: string;
+}
+
+interface DocTag {
+  tag: string;
+  name?: string;
+  text: string;
+}
+
+interface FunctionSignature {
+  parameters: Parameter[];
+  returnType: string;
 }
 
 interface FunctionInfo {
@@ -17,34 +32,150 @@ interface FunctionInfo {
   parameters: Parameter[];
   description: string;
   example: string;
+  returnType?: string;
+  typeParameters?: string[];
+  overloads?: FunctionSignature[];
+  tags?: DocTag[];
+  streaming?: boolean;
+  policy?: FunctionPolicy;
+}
+
+interface FunctionPolicy {
+  timeoutMs?: number;
+  rateLimit?: { maxCalls: number; windowMs: number };
+  role?: string;
+  hidden?: boolean;
+  deprecated?: string;
 }
 
 interface ModuleInfo {
   functions: FunctionInfo[];
   module: any;
   path: string;
+  root: string;
+  reloadError?: string;
+  importCycles?: string[];
 }
 
 interface ModulesMap {
   [key: string]: ModuleInfo;
 }
 
+interface InstanceInfo {
+  name: string;
+  module: string;
+  className: string;
+  createdAt: string;
+  methods: FunctionInfo[];
+}
+
+interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+interface TypeDiagnostic extends SourceLocation {
+  code: number;
+  message: string;
+}
+
+interface HookFailure {
+  hook: 'init' | 'dispose' | 'health';
+  error: string;
+  timestamp: string;
+}
+
+interface ModuleDiagnostic {
+  module: string;
+  file: string;
+  status: 'loaded' | 'stale' | 'failed' | 'empty';
+  error?: string;
+  location?: SourceLocation;
+  excerpt?: string;
+  typeErrors?: TypeDiagnostic[];
+  hookErrors?: HookFailure[];
+}
+
+interface ModuleSourceResponse {
+  module: string;
+  file: string;
+  source: string;
+  root: string;
+  readOnly: boolean;
+}
+
+interface ModuleWriteResponse {
+  module: string;
+  file?: string;
+  created?: boolean;
+  error?: string;
+  code?: string;
+  compileErrors?: TypeDiagnostic[];
+  typeErrors?: TypeDiagnostic[];
+  reload?: ModuleDiagnostic;
+}
+
+interface CallStep {
+  call: string;
+  depth: number;
+  durationMs: number;
+  result?: string;
+  error?: string;
+}
+
 interface ExecuteResponse {
   result?: string;
+  value?: SerializedValue;
   error?: string;
+  steps?: CallStep[];
+  warnings?: string[];
 }
 
 interface ExecuteRequest {
   callString: string;
+  structured?: boolean;
 }
 
+type SerializedValue =
+  | { type: 'undefined' }
+  | { type: 'null' }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'number'; value: number | string }
+  | { type: 'bigint'; value: string }
+  | { type: 'string'; value: string; truncated?: boolean }
+  | { type: 'symbol'; description: string }
+  | { type: 'function'; name: string }
+  | { type: 'date'; value: string }
+  | { type: 'regexp'; value: string }
+  | { type: 'error'; name: string; message: string; stack?: string }
+  | { type: 'array'; items: SerializedValue[]; omitted?: number }
+  | { type: 'set'; items: SerializedValue[]; omitted?: number }
+  | { type: 'map'; entries: { key: SerializedValue; value: SerializedValue }[]; omitted?: number }
+  | {
+      type: 'object';
+      className?: string;
+      properties: { key: string; value: SerializedValue }[];
+      omitted?: number;
+    }
+  | { type: 'circular' }
+  | { type: 'truncated'; reason: 'depth' | 'size' };
+
 interface LogEntry {
   id: number;
   call_string: string;
   result: string;
+  result_json: string | null;
+  details: string | null;
   timestamp: string;
 }
 
+interface StreamItem {
+  index: number;
+  result: string;
+  value?: SerializedValue;
+}
+
 interface ClientConfig {
   AUTO_REFRESH_INTERVAL: number;
   DEBOUNCE_DELAY: number;
@@ -54,6 +185,13 @@ interface ClientConfig {
 
 type ResultType = 'success' | 'error' | 'loading';
 
+type EditorStatus = 'success' | 'error' | 'warning';
+
+interface EditorToken {
+  text: string;
+  className?: string;
+}
+
 // Configuration
 const CLIENT_CONFIG: ClientConfig = {
   AUTO_REFRESH_INTERVAL: 3000,
@@ -62,6 +200,23 @@ const CLIENT_CONFIG: ClientConfig = {
   REQUEST_TIMEOUT: 10000,
 };
 
+// Writes always require authentication; the key is kept for the browser session
+const API_KEY_STORAGE_KEY = 'dynamicModuleApiKey';
+
+// Comments, strings, numbers and words of TypeScript source, in that order
+const EDITOR_TOKEN_PATTERN =
+  /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|('(?:[^'\\\n]|\\.)*'?|"(?:[^"\\\n]|\\.)*"?|`(?:[^`\\]|\\[\s\S])*`?)|(\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)n?\b)|([A-Za-z_$][\w$]*)/gi;
+
+const EDITOR_KEYWORDS = new Set<string>(
+  (
+    'as async await break case catch class const continue default delete do else enum ' +
+    'export extends false finally for from function if implements import in ' +
+    'instanceof interface let new null of private protected public readonly return ' +
+    'static super switch this throw true try type typeof undefined var void while ' +
+    'yield'
+  ).split(' ')
+);
+
 // State Management
 class ClientAppState {
   private static instance: ClientAppState;
@@ -71,6 +226,10 @@ class ClientAppState {
   public isAutoRefreshEnabled: boolean = true;
   public isLogsVisible: boolean = false;
   public isExecuting: boolean = false;
+  public streamingFunctions: Set<string> = new Set();
+  public streamController: AbortController | null = null;
+  public editingModule: string | null = null;
+  public editingFile: string = '';
 
   public static getInstance(): ClientAppState {
     if (!ClientAppState.instance) {
@@ -85,6 +244,10 @@ class ClientAppState {
     this.isAutoRefreshEnabled = true;
     this.isLogsVisible = false;
     this.isExecuting = false;
+    this.streamingFunctions = new Set();
+    this.streamController = null;
+    this.editingModule = null;
+    this.editingFile = '';
   }
 }
 
@@ -105,6 +268,174 @@ function formatResult(result: string): string {
   return escaped;
 }
 
+function isStreamingCall(callString: string): boolean {
+  // The outermost call of a pipeline is its last stage
+  const outerCall = callString.split('|>').pop() || '';
+  const match = outerCall.match(/^\s*([A-Za-z_][\w.]*)\.([A-Za-z_]\w*)\s*\(/);
+  return !!match && clientAppState.streamingFunctions.has(`${match[1]}.${match[2]}`);
+}
+
+function formatSteps(steps: CallStep[]): string {
+  return steps
+    .map((step) => {
+      const outcome = step.error !== undefined ? `✗ ${step.error}` : `→ ${step.result}`;
+      return `${'  '.repeat(step.depth)}${step.call} ${outcome} (${step.durationMs}ms)`;
+    })
+    .join('\n');
+}
+
+function parseLogSteps(details: string | null): CallStep[] {
+  if (!details) return [];
+  try {
+    const steps = JSON.parse(details);
+    return Array.isArray(steps) ? steps : [];
+  } catch {
+    return [];
+  }
+}
+
+function describeLeafValue(value: SerializedValue): string {
+  switch (value.type) {
+    case 'undefined':
+    case 'null':
+      return value.type;
+    case 'string':
+      return JSON.stringify(value.value) + (value.truncated ? '…' : '');
+    case 'bigint':
+      return `${value.value}n`;
+    case 'symbol':
+      return `Symbol(${value.description})`;
+    case 'function':
+      return `ƒ ${value.name}()`;
+    case 'date':
+      return `Date(${value.value})`;
+    case 'circular':
+      return '[Circular]';
+    case 'truncated':
+      return value.reason === 'depth' ? '[…]' : '… (result too large)';
+    case 'boolean':
+    case 'number':
+    case 'regexp':
+      return String(value.value);
+    default:
+      return '';
+  }
+}
+
+function summarizeValue(value: SerializedValue): string {
+  switch (value.type) {
+    case 'array':
+      return `[${value.items.map(summarizeValue).join(', ')}${value.omitted ? ', …' : ''}]`;
+    case 'set':
+      return `Set {${value.items.map(summarizeValue).join(', ')}${value.omitted ? ', …' : ''}}`;
+    case 'map':
+      return `Map {${value.entries
+        .map((entry) => `${summarizeValue(entry.key)} => ${summarizeValue(entry.value)}`)
+        .join(', ')}${value.omitted ? ', …' : ''}}`;
+    case 'object':
+      return `${value.className ? value.className + ' ' : ''}{${value.properties
+        .map((property) => `${property.key}: ${summarizeValue(property.value)}`)
+        .join(', ')}${value.omitted ? ', …' : ''}}`;
+    case 'error':
+      return `${value.name}: ${value.message}`;
+    default:
+      return describeLeafValue(value);
+  }
+}
+
+function formatLogResult(log: LogEntry): string {
+  if (log.result_json) {
+    try {
+      const value: SerializedValue = JSON.parse(log.result_json);
+      if (value.type !== 'string') {
+        return formatResult(summarizeValue(value));
+      }
+    } catch {
+      // Fall back to the plain text result
+    }
+  }
+  return formatResult(log.result);
+}
+
+function renderValueEntry(key: string, child: HTMLElement): HTMLElement {
+  const entry = document.createElement('div');
+  entry.className = 'value-entry';
+  const keySpan = document.createElement('span');
+  keySpan.className = 'value-key';
+  keySpan.textContent = `${key}: `;
+  entry.append(keySpan, child);
+  return entry;
+}
+
+function renderValueTree(value: SerializedValue, depth: number = 0): HTMLElement {
+  let label: string;
+  let entries: HTMLElement[];
+
+  switch (value.type) {
+    case 'array':
+    case 'set':
+      label = `${value.type === 'array' ? 'Array' : 'Set'}(${value.items.length + (value.omitted || 0)})`;
+      entries = value.items.map((item, index) =>
+        renderValueEntry(String(index), renderValueTree(item, depth + 1))
+      );
+      break;
+    case 'map':
+      label = `Map(${value.entries.length + (value.omitted || 0)})`;
+      entries = value.entries.map((entry) =>
+        renderValueEntry(
+          describeLeafValue(entry.key) || '{…}',
+          renderValueTree(entry.value, depth + 1)
+        )
+      );
+      break;
+    case 'object':
+      label = value.className || 'Object';
+      entries = value.properties.map((property) =>
+        renderValueEntry(property.key, renderValueTree(property.value, depth + 1))
+      );
+      break;
+    case 'error': {
+      label = `${value.name}: ${value.message}`;
+      entries = [];
+      if (value.stack) {
+        const stack = document.createElement('pre');
+        stack.className = 'value-stack';
+        stack.textContent = value.stack;
+        entries.push(stack);
+      }
+      break;
+    }
+    default: {
+      const leaf = document.createElement('span');
+      leaf.className = `value-leaf value-${value.type}`;
+      leaf.textContent = describeLeafValue(value);
+      return leaf;
+    }
+  }
+
+  if ('omitted' in value && value.omitted) {
+    const more = document.createElement('div');
+    more.className = 'value-entry value-truncated';
+    more.textContent = `… ${value.omitted} more`;
+    entries.push(more);
+  }
+
+  const details = document.createElement('details');
+  details.className = 'value-tree';
+  details.open = depth < 2;
+  const summary = document.createElement('summary');
+  summary.textContent = label;
+  details.append(summary, ...entries);
+  return details;
+}
+
+function formatParameter(param: Parameter): string {
+  const prefix = param.rest ? '...' : '';
+  const marker = param.optional && !param.rest && !param.defaultValue ? '?' : '';
+  const defaultValue = param.defaultValue ? ' = ' + param.defaultValue : '';
+  return prefix + param.name + marker + ': ' + param.type + defaultValue;
+}
+
 function formatTimestamp(timestamp: string): string {
   const date = new Date(timestamp);
   const now = new Date();
@@ -158,7 +489,7 @@ class ApiService {
     callString: string,
     retries: number = CLIENT_CONFIG.MAX_RETRIES
   ): Promise<ExecuteResponse> {
-    const requestData: ExecuteRequest = { callString };
+    const requestData: ExecuteRequest = { callString, structured: true };
 
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
@@ -176,6 +507,11 @@ class ApiService {
 
         clearTimeout(timeoutId);
 
+        // Calls refused by a role or rate limit would fail again, so they are not retried
+        if (response.status === 403 || response.status === 429) {
+          return await response.json();
+        }
+
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
@@ -192,6 +528,49 @@ class ApiService {
     throw new Error('Max retries exceeded');
   }
 
+  static async executeStream(
+    callString: string,
+    onEvent: (event: string, data: any) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const requestData: ExecuteRequest = { callString, structured: true };
+    const response = await fetch('/api/execute/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestData),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      onEvent('done', { error: errorData.error || `HTTP ${response.status}` });
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() || '';
+
+      frames.forEach((frame) => {
+        const event = frame.match(/^event: (.*)$/m);
+        const data = frame.match(/^data: (.*)$/m);
+        if (event && data) {
+          onEvent(event[1], JSON.parse(data[1]));
+        }
+      });
+    }
+  }
+
   static async fetchModules(): Promise<ModulesMap> {
     const response = await fetch('/api/modules');
     if (!response.ok) {
@@ -200,6 +579,47 @@ class ApiService {
     return await response.json();
   }
 
+  static async fetchInstances(): Promise<InstanceInfo[]> {
+    const response = await fetch('/api/instances');
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  static async fetchDiagnostics(): Promise<ModuleDiagnostic[]> {
+    const response = await fetch('/api/modules/diagnostics');
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  static async fetchModuleSource(moduleName: string): Promise<ModuleSourceResponse> {
+    const response = await fetch('/api/modules/' + encodeURIComponent(moduleName));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  static async saveModuleSource(
+    moduleName: string,
+    source: string,
+    apiKey: string
+  ): Promise<{ status: number; data: ModuleWriteResponse }> {
+    const response = await fetch('/api/modules/' + encodeURIComponent(moduleName), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: 'Bearer ' + apiKey } : {}),
+      },
+      body: JSON.stringify({ source }),
+    });
+    const data = await response.json().catch(() => ({ module: moduleName }));
+    return { status: response.status, data };
+  }
+
   static async fetchLogs(): Promise<LogEntry[]> {
     const response = await fetch('/api/logs');
     if (!response.ok) {
@@ -224,6 +644,57 @@ class UIManager {
       type === 'loading' ? message : (type === 'success' ? 'Result: ' : 'Error: ') + message;
   }
 
+  static showValue(resultDiv: HTMLDivElement, value: SerializedValue): void {
+    resultDiv.className = 'result success';
+    resultDiv.textContent = 'Result: ';
+    resultDiv.appendChild(renderValueTree(value));
+  }
+
+  static startStream(resultDiv: HTMLDivElement): HTMLOListElement {
+    resultDiv.className = 'result loading';
+    resultDiv.textContent = 'Streaming...';
+    const list = document.createElement('ol');
+    list.className = 'stream-output';
+    list.start = 0;
+    resultDiv.appendChild(list);
+    return list;
+  }
+
+  static appendStreamItem(list: HTMLOListElement, item: StreamItem): void {
+    const entry = document.createElement('li');
+    if (item.value) {
+      entry.appendChild(renderValueTree(item.value));
+    } else {
+      entry.textContent = item.result;
+    }
+    list.appendChild(entry);
+  }
+
+  static finishStream(
+    resultDiv: HTMLDivElement,
+    list: HTMLOListElement,
+    response: ExecuteResponse
+  ): void {
+    resultDiv.className = `result ${response.error ? 'error' : 'success'}`;
+    resultDiv.firstChild!.textContent = response.error
+      ? `Error: ${response.error}`
+      : `Streamed ${list.children.length} values`;
+  }
+
+  static showSteps(resultDiv: HTMLDivElement, steps: CallStep[]): void {
+    const stepsDiv = document.createElement('div');
+    stepsDiv.className = 'call-steps';
+    stepsDiv.textContent = formatSteps(steps);
+    resultDiv.appendChild(stepsDiv);
+  }
+
+  static showWarnings(resultDiv: HTMLDivElement, warnings: string[]): void {
+    const warningsDiv = document.createElement('div');
+    warningsDiv.className = 'call-warnings';
+    warningsDiv.textContent = warnings.map((warning) => '⚠️ ' + warning).join('\n');
+    resultDiv.appendChild(warningsDiv);
+  }
+
   static updateExecuteButton(isExecuting: boolean): void {
     const executeBtn = document.querySelector(
       'button[onclick="executeFunction()"]'
@@ -232,6 +703,11 @@ class UIManager {
       executeBtn.disabled = isExecuting;
       executeBtn.textContent = isExecuting ? 'Executing...' : 'Execute';
     }
+
+    const cancelBtn = document.getElementById('cancelExecution') as HTMLButtonElement;
+    if (cancelBtn) {
+      cancelBtn.style.display = isExecuting && clientAppState.streamController ? '' : 'none';
+    }
   }
 
   static updateAutoRefreshButton(): void {
@@ -247,31 +723,229 @@ class UIManager {
     }
   }
 
-  static renderModules(modules: ModulesMap): void {
+  static renderModules(
+    modules: ModulesMap,
+    diagnostics: ModuleDiagnostic[] = [],
+    instances: InstanceInfo[] = []
+  ): void {
     const modulesDiv = document.getElementById('modules') as HTMLDivElement;
     if (!modulesDiv) return;
 
     modulesDiv.innerHTML = '';
-    const modulesGrid: HTMLDivElement = document.createElement('div');
-    modulesGrid.className = 'modules-grid';
 
-    Object.keys(modules).forEach((moduleName: string) => {
-      const moduleDiv = this.createModuleCard(moduleName, modules[moduleName]);
-      modulesGrid.appendChild(moduleDiv);
+    // Live class instances are listed before the modules
+    if (instances.length > 0) {
+      const heading: HTMLHeadingElement = document.createElement('h3');
+      heading.className = 'namespace-title';
+      heading.textContent = '🧩 Instances';
+      modulesDiv.appendChild(heading);
+
+      const instancesGrid: HTMLDivElement = document.createElement('div');
+      instancesGrid.className = 'modules-grid';
+      instances.forEach((instance: InstanceInfo) => {
+        instancesGrid.appendChild(this.createInstanceCard(instance));
+      });
+      modulesDiv.appendChild(instancesGrid);
+    }
+
+    const moduleDiagnostics = new Map<string, ModuleDiagnostic>();
+    diagnostics.forEach((diagnostic: ModuleDiagnostic) =>
+      moduleDiagnostics.set(diagnostic.module, diagnostic)
+    );
+
+    // Scripts that failed to load are shown next to the loaded modules
+    const moduleNames: string[] = Object.keys(modules).concat(
+      diagnostics
+        .filter((diagnostic: ModuleDiagnostic) => diagnostic.status !== 'loaded')
+        .map((diagnostic: ModuleDiagnostic) => diagnostic.module)
+        .filter((moduleName: string) => !modules[moduleName])
+    );
+
+    // Modules from subdirectories are grouped under their dotted namespace
+    const namespaces = new Map<string, string[]>();
+    moduleNames.forEach((moduleName: string) => {
+      const namespace = moduleName.substring(0, Math.max(0, moduleName.lastIndexOf('.')));
+      namespaces.set(namespace, [...(namespaces.get(namespace) || []), moduleName]);
+    });
+
+    Array.from(namespaces.keys())
+      .sort()
+      .forEach((namespace: string) => {
+        if (namespace) {
+          const heading: HTMLHeadingElement = document.createElement('h3');
+          heading.className = 'namespace-title';
+          heading.textContent = '📁 ' + namespace;
+          modulesDiv.appendChild(heading);
+        }
+
+        const modulesGrid: HTMLDivElement = document.createElement('div');
+        modulesGrid.className = 'modules-grid';
+
+        namespaces.get(namespace)!.forEach((moduleName: string) => {
+          const moduleDiv = modules[moduleName]
+            ? this.createModuleCard(
+                moduleName,
+                modules[moduleName],
+                moduleDiagnostics.get(moduleName)
+              )
+            : this.createFailedModuleCard(moduleDiagnostics.get(moduleName)!);
+          modulesGrid.appendChild(moduleDiv);
+        });
+
+        modulesDiv.appendChild(modulesGrid);
+      });
+  }
+
+  private static createInstanceCard(instance: InstanceInfo): HTMLDivElement {
+    const instanceDiv: HTMLDivElement = document.createElement('div');
+    instanceDiv.className = 'module-card';
+
+    const title: HTMLHeadingElement = document.createElement('h3');
+    title.className = 'module-title';
+    title.textContent = instance.name + ' (' + instance.module + '.' + instance.className + ')';
+    title.title = 'Created ' + new Date(instance.createdAt).toLocaleString();
+    instanceDiv.appendChild(title);
+
+    instance.methods.forEach((method: FunctionInfo) => {
+      instanceDiv.appendChild(this.createFunctionItem(instance.name, method));
     });
 
-    modulesDiv.appendChild(modulesGrid);
+    return instanceDiv;
   }
 
-  private static createModuleCard(moduleName: string, moduleInfo: any): HTMLDivElement {
+  private static createFailedModuleCard(diagnostic: ModuleDiagnostic): HTMLDivElement {
+    const moduleDiv: HTMLDivElement = document.createElement('div');
+    moduleDiv.className = 'module-card failed';
+
+    const title: HTMLHeadingElement = document.createElement('h3');
+    title.className = 'module-title';
+    title.textContent = '❌ ' + (diagnostic.file.split(/[\\/]/).pop() || diagnostic.module);
+    title.title = diagnostic.module;
+    title.appendChild(this.createEditButton(diagnostic.module));
+    moduleDiv.appendChild(title);
+
+    const status: HTMLDivElement = document.createElement('div');
+    status.className = 'function-description';
+    status.textContent =
+      diagnostic.status === 'empty'
+        ? 'Loaded, but exports no functions'
+        : 'Failed to load, module ' + diagnostic.module + ' is unavailable';
+    moduleDiv.appendChild(status);
+
+    moduleDiv.appendChild(this.createDiagnosticDetails(diagnostic));
+    return moduleDiv;
+  }
+
+  private static createEditButton(moduleName: string): HTMLButtonElement {
+    const button: HTMLButtonElement = document.createElement('button');
+    button.className = 'module-edit-button';
+    button.textContent = '✏️ Edit';
+    button.title = 'Edit ' + moduleName;
+    button.onclick = (): void => {
+      openEditor(moduleName);
+    };
+    return button;
+  }
+
+  private static createDiagnosticDetails(diagnostic: ModuleDiagnostic): HTMLDivElement {
+    const detailsDiv: HTMLDivElement = document.createElement('div');
+    detailsDiv.className = 'module-diagnostic';
+
+    if (diagnostic.error) {
+      const message: HTMLDivElement = document.createElement('div');
+      message.className = 'module-diagnostic-message';
+      message.textContent = diagnostic.error;
+      detailsDiv.appendChild(message);
+    }
+
+    if (diagnostic.location) {
+      const location: HTMLDivElement = document.createElement('div');
+      location.className = 'module-diagnostic-location';
+      location.textContent =
+        '📍 ' +
+        diagnostic.location.file +
+        ':' +
+        diagnostic.location.line +
+        ':' +
+        diagnostic.location.column;
+      detailsDiv.appendChild(location);
+    }
+
+    if (diagnostic.excerpt) {
+      const excerpt: HTMLPreElement = document.createElement('pre');
+      excerpt.className = 'module-diagnostic-excerpt';
+      excerpt.textContent = diagnostic.excerpt;
+      detailsDiv.appendChild(excerpt);
+    }
+
+    return detailsDiv;
+  }
+
+  private static createModuleCard(
+    moduleName: string,
+    moduleInfo: ModuleInfo,
+    diagnostic?: ModuleDiagnostic
+  ): HTMLDivElement {
     const moduleDiv: HTMLDivElement = document.createElement('div');
     moduleDiv.className = 'module-card';
 
     const title: HTMLHeadingElement = document.createElement('h3');
     title.className = 'module-title';
-    title.textContent = moduleName + '.ts';
+    title.textContent = moduleInfo.path.split(/[\\/]/).pop() || moduleName;
+    title.title = moduleName + ' (from ' + moduleInfo.root + ')';
+    title.appendChild(this.createEditButton(moduleName));
     moduleDiv.appendChild(title);
 
+    // The file changed but failed to load, so the previous version is still in use
+    if (moduleInfo.reloadError) {
+      const reloadError: HTMLDivElement = document.createElement('div');
+      reloadError.className = 'module-reload-error';
+      reloadError.textContent = '⚠️ Reload failed, serving the last working version';
+      reloadError.appendChild(
+        this.createDiagnosticDetails(
+          diagnostic || {
+            module: moduleName,
+            file: '',
+            status: 'stale',
+            error: moduleInfo.reloadError,
+          }
+        )
+      );
+      moduleDiv.appendChild(reloadError);
+    }
+
+    // Type errors reported in warn mode; in block mode they surface as a reload failure
+    if (diagnostic && diagnostic.status === 'loaded' && diagnostic.typeErrors) {
+      const typeErrors: HTMLDivElement = document.createElement('div');
+      typeErrors.className = 'module-reload-error';
+      typeErrors.textContent = '🔎 ' + diagnostic.typeErrors.length + ' type error(s)';
+
+      const list: HTMLPreElement = document.createElement('pre');
+      list.className = 'module-diagnostic-excerpt';
+      list.textContent = diagnostic.typeErrors
+        .map(
+          (typeError: TypeDiagnostic) =>
+            `${typeError.file}:${typeError.line}:${typeError.column} TS${typeError.code}: ${typeError.message}`
+        )
+        .join('\n');
+      typeErrors.appendChild(list);
+      moduleDiv.appendChild(typeErrors);
+    }
+
+    (diagnostic?.hookErrors || []).forEach((failure: HookFailure) => {
+      const hookError: HTMLDivElement = document.createElement('div');
+      hookError.className = 'module-reload-error';
+      hookError.textContent = '🪝 ' + failure.hook + '() failed: ' + failure.error;
+      moduleDiv.appendChild(hookError);
+    });
+
+    (moduleInfo.importCycles || []).forEach((cycle: string) => {
+      const cycleNotice: HTMLDivElement = document.createElement('div');
+      cycleNotice.className = 'module-reload-error';
+      cycleNotice.textContent = '🔁 Import cycle: ' + cycle;
+      moduleDiv.appendChild(cycleNotice);
+    });
+
     moduleInfo.functions.forEach((funcInfo: FunctionInfo) => {
       const funcDiv = this.createFunctionItem(moduleName, funcInfo);
       moduleDiv.appendChild(funcDiv);
@@ -291,16 +965,30 @@ class UIManager {
 
     let paramSignature: string = '';
     if (params.length > 0) {
-      paramSignature = params.map((param: Parameter) => param.name + ': ' + param.type).join(', ');
+      paramSignature = params.map(formatParameter).join(', ');
     }
 
-    const signature: string = moduleName + '.' + funcName + '(' + paramSignature + ')';
+    const typeParams: string = funcInfo.typeParameters
+      ? '<' + funcInfo.typeParameters.join(', ') + '>'
+      : '';
+    const returnType: string = funcInfo.returnType ? ': ' + funcInfo.returnType : '';
+    const signature: string =
+      moduleName + '.' + funcName + typeParams + '(' + paramSignature + ')' + returnType;
 
     const funcNameDiv: HTMLDivElement = document.createElement('div');
     funcNameDiv.className = 'function-name';
     funcNameDiv.textContent = signature;
     funcDiv.appendChild(funcNameDiv);
 
+    const deprecated: string | undefined = funcInfo.policy?.deprecated;
+    if (deprecated !== undefined) {
+      const badge: HTMLSpanElement = document.createElement('span');
+      badge.className = 'deprecated-badge';
+      badge.textContent = 'deprecated';
+      badge.title = deprecated || 'This function is deprecated';
+      funcNameDiv.appendChild(badge);
+    }
+
     if (description) {
       const descDiv: HTMLDivElement = document.createElement('div');
       descDiv.className = 'function-description';
@@ -314,7 +1002,14 @@ class UIManager {
       paramDiv.innerHTML =
         'Parameters: ' +
         params
-          .map((param: Parameter) => `<strong>${param.name}</strong> (${param.type})`)
+          .map(
+            (param: Parameter) =>
+              `<strong>${escapeHtml(param.name)}</strong> (${escapeHtml(param.type)}` +
+              (param.optional ? ', <em class="optional-param">optional</em>' : '') +
+              (param.defaultValue ? `, default ${escapeHtml(param.defaultValue)}` : '') +
+              ')' +
+              (param.description ? ` – ${escapeHtml(param.description)}` : '')
+          )
           .join(', ');
       funcDiv.appendChild(paramDiv);
     }
@@ -380,10 +1075,14 @@ class UIManager {
 
     visibleLogs.reverse().forEach((log) => {
       const row = document.createElement('tr');
+      const steps = parseLogSteps(log.details);
+      const stepsBadge = steps.length
+        ? ` <span class="call-steps-count truncated" title="${escapeHtml(formatSteps(steps))}">${steps.length} calls</span>`
+        : '';
       row.innerHTML = `
         <td>${log.id}</td>
-        <td><code class="call-string">${escapeHtml(log.call_string)}</code></td>
-        <td class="result-cell">${formatResult(log.result)}</td>
+        <td><code class="call-string">${escapeHtml(log.call_string)}</code>${stepsBadge}</td>
+        <td class="result-cell">${formatLogResult(log)}</td>
         <td class="timestamp">${formatTimestamp(log.timestamp)}</td>
       `;
       tbody.appendChild(row);
@@ -460,6 +1159,7 @@ class EventManager {
   static setupAll(): void {
     this.setupEventListeners();
     this.setupKeyboardShortcuts();
+    EditorManager.setup();
   }
 }
 
@@ -497,10 +1197,23 @@ class ModuleManager {
   static async refreshModules(forceRefresh: boolean = false): Promise<void> {
     try {
       const modules: ModulesMap = await ApiService.fetchModules();
-      const currentHash: string = JSON.stringify(modules);
+      const diagnostics: ModuleDiagnostic[] = await ApiService.fetchDiagnostics();
+      const instances: InstanceInfo[] = await ApiService.fetchInstances();
+      const currentHash: string = JSON.stringify([modules, diagnostics, instances]);
+
+      clientAppState.streamingFunctions = new Set(
+        Object.entries(modules).flatMap(([moduleName, moduleInfo]) =>
+          moduleInfo.functions.filter((f) => f.streaming).map((f) => `${moduleName}.${f.name}`)
+        )
+      );
+      instances.forEach((instance: InstanceInfo) =>
+        instance.methods
+          .filter((m) => m.streaming)
+          .forEach((m) => clientAppState.streamingFunctions.add(`${instance.name}.${m.name}`))
+      );
 
       if (currentHash !== clientAppState.lastModulesHash || forceRefresh) {
-        UIManager.renderModules(modules);
+        UIManager.renderModules(modules, diagnostics, instances);
 
         if (clientAppState.lastModulesHash !== '') {
           showUpdateIndicator();
@@ -514,6 +1227,292 @@ class ModuleManager {
   }
 }
 
+// Editor Manager
+class EditorManager {
+  // Line numbers of the edited file with errors, and the message shown on hover
+  private static errorLines = new Map<number, string>();
+
+  static setup(): void {
+    const input = document.getElementById('editorInput') as HTMLTextAreaElement;
+    const apiKeyInput = document.getElementById('editorApiKey') as HTMLInputElement;
+    if (!input || !apiKeyInput) return;
+
+    apiKeyInput.value = sessionStorage.getItem(API_KEY_STORAGE_KEY) || '';
+    apiKeyInput.addEventListener('change', () => {
+      sessionStorage.setItem(API_KEY_STORAGE_KEY, apiKeyInput.value.trim());
+    });
+
+    input.addEventListener('input', () => this.render());
+    input.addEventListener('scroll', () => this.syncScroll());
+
+    input.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Tab' && !e.shiftKey) {
+        e.preventDefault();
+        input.setRangeText('  ', input.selectionStart, input.selectionEnd, 'end');
+        this.render();
+      } else if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+        e.preventDefault();
+        this.save();
+      } else if (e.key === 'Escape') {
+        this.close();
+      }
+    });
+  }
+
+  static async open(moduleName: string): Promise<void> {
+    const editor = document.getElementById('editor') as HTMLDivElement;
+    const input = document.getElementById('editorInput') as HTMLTextAreaElement;
+    const title = document.getElementById('editorTitle') as HTMLHeadingElement;
+    const saveButton = document.getElementById('editorSave') as HTMLButtonElement;
+    if (!editor || !input || !title || !saveButton) return;
+
+    try {
+      const { file, source, root, readOnly } = await ApiService.fetchModuleSource(moduleName);
+      clientAppState.editingModule = moduleName;
+      clientAppState.editingFile = file;
+
+      title.textContent = '✏️ ' + file;
+      title.title = moduleName + ' (from ' + root + ')';
+      input.value = source;
+      input.readOnly = readOnly;
+      saveButton.disabled = readOnly;
+      editor.style.display = 'block';
+
+      this.showErrors([]);
+      this.setStatus(readOnly ? '🔒 ' + root + ' is a read-only script root' : '', 'warning');
+      this.render();
+      editor.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      input.focus();
+    } catch (error: any) {
+      console.error('Error opening module source:', error);
+      alert('Failed to open ' + moduleName + ': ' + error.message);
+    }
+  }
+
+  static close(): void {
+    const editor = document.getElementById('editor') as HTMLDivElement;
+    if (editor) {
+      editor.style.display = 'none';
+    }
+    clientAppState.editingModule = null;
+    clientAppState.editingFile = '';
+  }
+
+  /**
+   * Save the source. The server compiles it first and reloads the module before
+   * responding, so the result of the reload is shown right away.
+   */
+  static async save(): Promise<void> {
+    const moduleName = clientAppState.editingModule;
+    const input = document.getElementById('editorInput') as HTMLTextAreaElement;
+    const saveButton = document.getElementById('editorSave') as HTMLButtonElement;
+    if (!moduleName || !input || !saveButton || input.readOnly) return;
+
+    saveButton.disabled = true;
+    this.setStatus('⏳ Saving...', 'warning');
+
+    try {
+      const apiKey = sessionStorage.getItem(API_KEY_STORAGE_KEY) || '';
+      const { status, data } = await ApiService.saveModuleSource(moduleName, input.value, apiKey);
+
+      if (status === 401) {
+        this.setStatus(
+          '🔒 ' +
+            (data.error || 'Authentication required') +
+            '. Enter the API key shown in the server log.',
+          'error'
+        );
+        return;
+      }
+
+      if (data.code || status >= 400) {
+        const errors = data.compileErrors || data.typeErrors || [];
+        this.showErrors(errors);
+        this.setStatus('❌ Not saved: ' + (data.error || `HTTP ${status}`), 'error');
+        return;
+      }
+
+      this.showReloadResult(data);
+      ModuleManager.refreshModules(true);
+    } catch (error: any) {
+      console.error('Error saving module:', error);
+      this.setStatus('❌ Failed to save: ' + error.message, 'error');
+    } finally {
+      saveButton.disabled = false;
+    }
+  }
+
+  private static showReloadResult(response: ModuleWriteResponse): void {
+    const reload = response.reload;
+    const typeErrors = response.typeErrors || [];
+
+    if (!reload || reload.status === 'loaded') {
+      this.showErrors(typeErrors);
+      this.setStatus(
+        '✅ Saved and reloaded' +
+          (typeErrors.length > 0 ? ' with ' + typeErrors.length + ' type error(s)' : ''),
+        typeErrors.length > 0 ? 'warning' : 'success'
+      );
+      return;
+    }
+
+    if (reload.status === 'empty') {
+      this.showErrors([]);
+      this.setStatus('⚠️ Saved, but the module exports no functions', 'warning');
+      return;
+    }
+
+    this.showErrors(
+      reload.typeErrors ||
+        (reload.location ? [{ ...reload.location, code: 0, message: reload.error || '' }] : [])
+    );
+    this.setStatus(
+      (reload.status === 'stale'
+        ? '⚠️ Saved, but the reload failed. The last working version is still in use:\n'
+        : '⚠️ Saved, but the module failed to load:\n') + (reload.error || ''),
+      'error'
+    );
+  }
+
+  private static setStatus(message: string, type: EditorStatus): void {
+    const status = document.getElementById('editorStatus') as HTMLDivElement;
+    if (!status) return;
+
+    status.className = 'editor-status ' + type;
+    status.textContent = message;
+  }
+
+  /**
+   * List errors below the editor and mark the lines of the edited file they point at
+   */
+  private static showErrors(errors: TypeDiagnostic[]): void {
+    const list = document.getElementById('editorErrors') as HTMLUListElement;
+    if (!list) return;
+
+    list.innerHTML = '';
+    errors.forEach((error: TypeDiagnostic) => {
+      const item: HTMLLIElement = document.createElement('li');
+      item.textContent =
+        `${error.file}:${error.line}:${error.column} ` +
+        (error.code ? `TS${error.code}: ` : '') +
+        error.message;
+      if (error.file === clientAppState.editingFile) {
+        item.onclick = (): void => this.goToLine(error.line, error.column);
+      }
+      list.appendChild(item);
+    });
+
+    this.errorLines = new Map(
+      errors
+        .filter((error: TypeDiagnostic) => error.file === clientAppState.editingFile)
+        .map((error: TypeDiagnostic) => [error.line, error.message])
+    );
+    this.render();
+  }
+
+  private static goToLine(line: number, column: number): void {
+    const input = document.getElementById('editorInput') as HTMLTextAreaElement;
+    if (!input) return;
+
+    const lines = input.value.split('\n');
+    const offset =
+      lines.slice(0, line - 1).reduce((total, text) => total + text.length + 1, 0) + column - 1;
+    input.focus();
+    input.setSelectionRange(offset, offset);
+  }
+
+  /**
+   * Redraw the highlighted copy of the source and the line numbers behind the textarea
+   */
+  private static render(): void {
+    const input = document.getElementById('editorInput') as HTMLTextAreaElement;
+    const highlight = document.getElementById('editorHighlight') as HTMLPreElement;
+    const gutter = document.getElementById('editorGutter') as HTMLDivElement;
+    if (!input || !highlight || !gutter) return;
+
+    const lines = this.highlight(input.value);
+    highlight.innerHTML = lines
+      .map(
+        (line: string, index: number) =>
+          `<div${this.errorLines.has(index + 1) ? ' class="error"' : ''}>${line || ' '}</div>`
+      )
+      .join('');
+    gutter.innerHTML = '';
+    lines.forEach((_line: string, index: number) => {
+      const lineNumber: HTMLDivElement = document.createElement('div');
+      lineNumber.textContent = String(index + 1);
+      if (this.errorLines.has(index + 1)) {
+        lineNumber.className = 'error';
+        lineNumber.title = this.errorLines.get(index + 1)!;
+      }
+      gutter.appendChild(lineNumber);
+    });
+
+    this.syncScroll();
+  }
+
+  private static syncScroll(): void {
+    const input = document.getElementById('editorInput') as HTMLTextAreaElement;
+    const highlight = document.getElementById('editorHighlight') as HTMLPreElement;
+    const gutter = document.getElementById('editorGutter') as HTMLDivElement;
+    if (!input || !highlight || !gutter) return;
+
+    highlight.scrollTop = input.scrollTop;
+    highlight.scrollLeft = input.scrollLeft;
+    gutter.scrollTop = input.scrollTop;
+  }
+
+  /**
+   * Highlight TypeScript source, returning the HTML of each line. Tokens that span
+   * several lines (block comments, template strings) are split at line breaks.
+   */
+  private static highlight(source: string): string[] {
+    const tokens: EditorToken[] = [];
+    let position = 0;
+
+    for (const match of source.matchAll(EDITOR_TOKEN_PATTERN)) {
+      const index = match.index || 0;
+      if (index > position) {
+        tokens.push({ text: source.slice(position, index) });
+      }
+
+      const [text, comment, string, number, word] = match;
+      let className: string | undefined;
+      if (comment) {
+        className = 'token-comment';
+      } else if (string) {
+        className = 'token-string';
+      } else if (number) {
+        className = 'token-number';
+      } else if (word && EDITOR_KEYWORDS.has(word)) {
+        className = 'token-keyword';
+      } else if (word && /^\s*\(/.test(source.slice(index + text.length))) {
+        className = 'token-function';
+      }
+
+      tokens.push({ text, className });
+      position = index + text.length;
+    }
+    tokens.push({ text: source.slice(position) });
+
+    const lines: string[] = [''];
+    tokens.forEach((token: EditorToken) => {
+      token.text.split('\n').forEach((part: string, index: number) => {
+        if (index > 0) {
+          lines.push('');
+        }
+        if (part) {
+          lines[lines.length - 1] += token.className
+            ? `<span class="${token.className}">${escapeHtml(part)}</span>`
+            : escapeHtml(part);
+        }
+      });
+    });
+
+    return lines;
+  }
+}
+
 // Log Manager
 class LogManager {
   static async toggleLogs(): Promise<void> {
@@ -565,6 +1564,46 @@ class LogManager {
 
 // Executor
 class Executor {
+  static async executeStreaming(callString: string, resultDiv: HTMLDivElement): Promise<void> {
+    const controller = new AbortController();
+    clientAppState.isExecuting = true;
+    clientAppState.streamController = controller;
+    UIManager.updateExecuteButton(true);
+    const list = UIManager.startStream(resultDiv);
+
+    try {
+      await ApiService.executeStream(
+        callString,
+        (event, data) => {
+          if (event === 'yield') {
+            UIManager.appendStreamItem(list, data);
+          } else if (event === 'done') {
+            UIManager.finishStream(resultDiv, list, data);
+          }
+        },
+        controller.signal
+      );
+    } catch (error) {
+      UIManager.finishStream(resultDiv, list, {
+        error: controller.signal.aborted
+          ? 'Execution cancelled'
+          : `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      clientAppState.isExecuting = false;
+      clientAppState.streamController = null;
+      UIManager.updateExecuteButton(false);
+    }
+
+    if (clientAppState.isLogsVisible) {
+      LogManager.loadLogs();
+    }
+  }
+
+  static cancelExecution(): void {
+    clientAppState.streamController?.abort();
+  }
+
   static async executeFunction(): Promise<void> {
     if (clientAppState.isExecuting) {
       return;
@@ -584,6 +1623,11 @@ class Executor {
       return;
     }
 
+    if (isStreamingCall(callString)) {
+      await this.executeStreaming(callString, resultDiv);
+      return;
+    }
+
     clientAppState.isExecuting = true;
     UIManager.updateExecuteButton(true);
     UIManager.showResult(resultDiv, 'Executing...', 'loading');
@@ -593,10 +1637,20 @@ class Executor {
 
       if (result.error) {
         UIManager.showResult(resultDiv, result.error, 'error');
+      } else if (result.value) {
+        UIManager.showValue(resultDiv, result.value);
       } else {
         UIManager.showResult(resultDiv, result.result || 'No result', 'success');
       }
 
+      if (result.steps) {
+        UIManager.showSteps(resultDiv, result.steps);
+      }
+
+      if (result.warnings) {
+        UIManager.showWarnings(resultDiv, result.warnings);
+      }
+
       if (clientAppState.isLogsVisible) {
         LogManager.loadLogs();
       }
@@ -635,6 +1689,10 @@ async function initializeApp(): Promise<void> {
 }
 
 // Global function wrappers for HTML onclick handlers
+function cancelExecution(): void {
+  Executor.cancelExecution();
+}
+
 function executeFunction(): void {
   // Call the async method but don't await it to maintain void return type
   Executor.executeFunction().catch((error) => {
@@ -650,6 +1708,18 @@ function toggleAutoRefresh(): void {
   ModuleManager.toggleAutoRefresh();
 }
 
+function openEditor(moduleName: string): void {
+  EditorManager.open(moduleName);
+}
+
+function saveEditor(): void {
+  EditorManager.save();
+}
+
+function closeEditor(): void {
+  EditorManager.close();
+}
+
 function toggleLogs(): void {
   LogManager.toggleLogs();
 }
@@ -664,9 +1734,12 @@ function loadAllLogs(): void {
 
 // Make functions globally available for HTML onclick handlers
 (window as any).executeFunction = executeFunction;
+(window as any).cancelExecution = cancelExecution;
 (window as any).toggleAutoRefresh = toggleAutoRefresh;
 (window as any).refreshModules = refreshModules;
 (window as any).toggleLogs = toggleLogs;
+(window as any).saveEditor = saveEditor;
+(window as any).closeEditor = closeEditor;
 (window as any).clearLogs = clearLogs;
 (window as any).loadAllLogs = loadAllLogs;
 
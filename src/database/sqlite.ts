@@ -1,12 +1,16 @@
 /**
- * SQLite database operations for execution logging
+ * SQLite database operations for execution logging, script version history and
+ * persistent module state
  */
 
 import sqlite3 from 'sqlite3';
-import { LogEntry } from '../types';
+import { LogEntry, ScriptVersion, StateRow } from '../types';
 import { CONFIG } from '../utils/config';
 import { logger } from '../utils/logger';
 
+// Log columns added after the original schema, created on startup when missing
+const OPTIONAL_LOG_COLUMNS = ['result_json', 'details'];
+
 export class DatabaseManager {
   private db: sqlite3.Database | null = null;
   private isClosing: boolean = false;
@@ -46,6 +50,8 @@ export class DatabaseManager {
           id INTEGER PRIMARY KEY AUTOINCREMENT,
           call_string TEXT NOT NULL,
           result TEXT NOT NULL,
+          result_json TEXT,
+          details TEXT,
           timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
         )
       `;
@@ -55,7 +61,82 @@ export class DatabaseManager {
           logger.error('Failed to create table:', err.message);
           reject(err);
         } else {
-          logger.info('Database tables initialized');
+          this.addMissingColumns()
+            .then(() => this.createVersionsTable())
+            .then(() => this.createStateTable())
+            .then(() => {
+              logger.info('Database tables initialized');
+              resolve();
+            })
+            .catch(reject);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create the table holding snapshots of script files
+   */
+  private async createVersionsTable(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const db = this.db;
+      db.serialize(() => {
+        db.run(`
+          CREATE TABLE IF NOT EXISTS script_versions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            module_name TEXT NOT NULL,
+            file_path TEXT NOT NULL,
+            content TEXT NOT NULL,
+            content_hash TEXT NOT NULL,
+            timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+          )
+        `);
+        db.run(
+          'CREATE INDEX IF NOT EXISTS idx_script_versions_module ON script_versions (module_name, id)',
+          (err) => {
+            if (err) {
+              logger.error('Failed to create script_versions table:', err.message);
+              reject(err);
+            } else {
+              resolve();
+            }
+          }
+        );
+      });
+    });
+  }
+
+  /**
+   * Create the table holding the key-value state of modules
+   */
+  private async createStateTable(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const createTableSQL = `
+        CREATE TABLE IF NOT EXISTS module_state (
+          module_name TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          expires_at INTEGER,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (module_name, key)
+        )
+      `;
+
+      this.db.run(createTableSQL, (err) => {
+        if (err) {
+          logger.error('Failed to create module_state table:', err.message);
+          reject(err);
+        } else {
           resolve();
         }
       });
@@ -63,17 +144,66 @@ export class DatabaseManager {
   }
 
   /**
-   * Log function execution to database
+   * Add columns introduced after the log table was first created
    */
-  public async logExecution(callString: string, result: string): Promise<void> {
+  private async addMissingColumns(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
         return;
       }
 
-      const insertSQL = 'INSERT INTO execution_log (call_string, result) VALUES (?, ?)';
-      this.db.run(insertSQL, [callString, result], function (err) {
+      const db = this.db;
+      db.all('PRAGMA table_info(execution_log)', (err, columns: { name: string }[]) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const missing = OPTIONAL_LOG_COLUMNS.filter(
+          (name) => !columns.some((column) => column.name === name)
+        );
+        if (missing.length === 0) {
+          resolve();
+          return;
+        }
+
+        db.serialize(() => {
+          missing.forEach((name, index) => {
+            db.run(`ALTER TABLE execution_log ADD COLUMN ${name} TEXT`, (alterErr) => {
+              if (alterErr) {
+                logger.error(`Failed to add ${name} column:`, alterErr.message);
+                reject(alterErr);
+              } else if (index === missing.length - 1) {
+                logger.info(`Added ${missing.join(', ')} column(s) to execution_log`);
+                resolve();
+              }
+            });
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Log function execution to database, with an optional JSON breakdown of sub-calls
+   * and the serialized return value
+   */
+  public async logExecution(
+    callString: string,
+    result: string,
+    details: string | null = null,
+    resultJson: string | null = null
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const insertSQL =
+        'INSERT INTO execution_log (call_string, result, result_json, details) VALUES (?, ?, ?, ?)';
+      this.db.run(insertSQL, [callString, result, resultJson, details], function (err) {
         if (err) {
           logger.error('Failed to log execution:', err.message);
           reject(err);
@@ -96,7 +226,7 @@ export class DatabaseManager {
       }
 
       const selectSQL = `
-        SELECT id, call_string, result, timestamp 
+        SELECT id, call_string, result, result_json, details, timestamp 
         FROM execution_log 
         ORDER BY timestamp DESC 
         LIMIT ?
@@ -136,6 +266,243 @@ export class DatabaseManager {
     });
   }
 
+  /**
+   * Save a snapshot of a script file unless it matches the module's latest
+   * snapshot. Resolves to the new version's ID, or null when nothing changed.
+   */
+  public async saveScriptVersion(
+    moduleName: string,
+    filePath: string,
+    content: string,
+    contentHash: string
+  ): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const insertSQL = `
+        INSERT INTO script_versions (module_name, file_path, content, content_hash)
+        SELECT ?, ?, ?, ?
+        WHERE (
+          SELECT content_hash FROM script_versions
+          WHERE module_name = ? ORDER BY id DESC LIMIT 1
+        ) IS NOT ?
+      `;
+      const params = [moduleName, filePath, content, contentHash, moduleName, contentHash];
+      this.db.run(insertSQL, params, function (err) {
+        if (err) {
+          logger.error('Failed to save script version:', err.message);
+          reject(err);
+        } else if (this.changes === 0) {
+          resolve(null);
+        } else {
+          logger.debug(`Saved version ${this.lastID} of module ${moduleName}`);
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  /**
+   * List the saved versions of a module, newest first, without their content
+   */
+  public async getScriptVersions(moduleName: string): Promise<ScriptVersion[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const selectSQL = `
+        SELECT id, module_name, file_path, content_hash, length(content) AS size, timestamp
+        FROM script_versions
+        WHERE module_name = ?
+        ORDER BY id DESC
+      `;
+
+      this.db.all(selectSQL, [moduleName], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to fetch script versions:', err.message);
+          reject(err);
+        } else {
+          resolve(rows as ScriptVersion[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get one saved version of a module, including its content
+   */
+  public async getScriptVersion(moduleName: string, id: number): Promise<ScriptVersion | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const selectSQL = `
+        SELECT id, module_name, file_path, content_hash, length(content) AS size, timestamp, content
+        FROM script_versions
+        WHERE module_name = ? AND id = ?
+      `;
+
+      this.db.get(selectSQL, [moduleName, id], (err, row: any) => {
+        if (err) {
+          logger.error('Failed to fetch script version:', err.message);
+          reject(err);
+        } else {
+          resolve((row as ScriptVersion) || null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get a module's state entry unless it has expired
+   */
+  public async getStateEntry(moduleName: string, key: string): Promise<StateRow | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const selectSQL = `
+        SELECT key, value, expires_at, updated_at
+        FROM module_state
+        WHERE module_name = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)
+      `;
+
+      this.db.get(selectSQL, [moduleName, key, Date.now()], (err, row: any) => {
+        if (err) {
+          logger.error('Failed to fetch module state:', err.message);
+          reject(err);
+        } else {
+          resolve((row as StateRow) || null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create or replace a module's state entry, dropping the module's expired
+   * entries on the way
+   */
+  public async setStateEntry(
+    moduleName: string,
+    key: string,
+    value: string,
+    expiresAt: number | null
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const db = this.db;
+      db.serialize(() => {
+        db.run('DELETE FROM module_state WHERE module_name = ? AND expires_at <= ?', [
+          moduleName,
+          Date.now(),
+        ]);
+        db.run(
+          `INSERT OR REPLACE INTO module_state (module_name, key, value, expires_at, updated_at)
+           VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+          [moduleName, key, value, expiresAt],
+          (err) => {
+            if (err) {
+              logger.error('Failed to save module state:', err.message);
+              reject(err);
+            } else {
+              resolve();
+            }
+          }
+        );
+      });
+    });
+  }
+
+  /**
+   * Delete a module's state entry. Resolves to false when there was no live entry.
+   */
+  public async deleteStateEntry(moduleName: string, key: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const deleteSQL = `
+        DELETE FROM module_state
+        WHERE module_name = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)
+      `;
+      this.db.run(deleteSQL, [moduleName, key, Date.now()], function (err) {
+        if (err) {
+          logger.error('Failed to delete module state:', err.message);
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  /**
+   * List a module's live state entries ordered by key, optionally only keys
+   * starting with a prefix
+   */
+  public async listStateEntries(moduleName: string, prefix: string = ''): Promise<StateRow[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const selectSQL = `
+        SELECT key, value, expires_at, updated_at
+        FROM module_state
+        WHERE module_name = ? AND substr(key, 1, ?) = ? AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY key
+      `;
+      const params = [moduleName, prefix.length, prefix, Date.now()];
+
+      this.db.all(selectSQL, params, (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to fetch module state:', err.message);
+          reject(err);
+        } else {
+          resolve(rows as StateRow[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete all state entries of a module. Resolves to the number of deleted entries.
+   */
+  public async clearState(moduleName: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.run('DELETE FROM module_state WHERE module_name = ?', [moduleName], function (err) {
+        if (err) {
+          logger.error('Failed to clear module state:', err.message);
+          reject(err);
+        } else {
+          logger.info(`Cleared ${this.changes} state entries of module ${moduleName}`);
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
   /**
    * Close database connection
    */
@@ -0,0 +1,157 @@
+/**
+ * Parser for call expressions: `module.fn(args)` (where the module may be a dotted
+ * namespace), calls nested as arguments and `|>` pipelines. Arguments that are not
+ * calls are parsed as literals.
+ */
+
+import { LiteralParseError, LiteralParser, ParsedArguments } from './literalParser';
+
+// Maximum number of function calls in a single expression
+const MAX_CALLS = 16;
+
+// Placeholder that receives the previous pipe stage's result
+const PIPE_PLACEHOLDER = '_';
+
+const PIPE_OPERATOR = '|>';
+
+/**
+ * A parsed `module.fn(args)` call. Arguments may themselves be CallNodes.
+ */
+export class CallNode {
+  constructor(
+    public readonly moduleName: string,
+    public readonly functionName: string,
+    public readonly args: ParsedArguments,
+    public readonly source: string
+  ) {}
+
+  /**
+   * Count this call and every call nested in its arguments
+   */
+  public countCalls(): number {
+    return [...this.args.positional, ...this.args.named.map((arg) => arg.value)]
+      .filter((value): value is CallNode => value instanceof CallNode)
+      .reduce((count, child) => count + child.countCalls(), 1);
+  }
+}
+
+export class CallExpressionParser extends LiteralParser {
+  private calls: number = 0;
+  private pipeInput: CallNode | null = null;
+  private placeholderUses: number = 0;
+
+  /**
+   * Parse a whole call expression such as
+   * `cat.walk("Tom") |> bird.sing("Tweety", _)`
+   */
+  static parse(source: string): CallNode {
+    const parser = new CallExpressionParser(source);
+    const call = parser.parsePipeline();
+    parser.expectEnd();
+    return call;
+  }
+
+  /**
+   * Parse calls joined by `|>`, substituting each stage for `_` in the next one
+   */
+  private parsePipeline(): CallNode {
+    let call = this.parseCall();
+    this.skipWhitespace();
+
+    while (this.source.startsWith(PIPE_OPERATOR, this.pos)) {
+      this.pos += PIPE_OPERATOR.length;
+      this.pipeInput = call;
+      this.placeholderUses = 0;
+
+      const stageStart = this.pos;
+      const stage = this.parseCall();
+      if (this.placeholderUses === 0) {
+        throw new LiteralParseError(
+          `Pipe stage ${stage.moduleName}.${stage.functionName} must use '${PIPE_PLACEHOLDER}' to receive the previous result`,
+          stageStart
+        );
+      }
+
+      call = stage;
+      this.pipeInput = null;
+      this.skipWhitespace();
+    }
+
+    return call;
+  }
+
+  /**
+   * Parse `module.fn(args)`, where the module name may be a dotted namespace
+   * such as `animals.cat`
+   */
+  private parseCall(): CallNode {
+    this.skipWhitespace();
+    const start = this.pos;
+
+    if (++this.calls > MAX_CALLS) {
+      throw this.error(`Too many calls in one expression. At most ${MAX_CALLS} are allowed`);
+    }
+
+    const names = [this.readName()];
+    this.expect('.');
+    names.push(this.readName());
+
+    this.skipWhitespace();
+    while (this.peek() === '.') {
+      this.pos++;
+      names.push(this.readName());
+      this.skipWhitespace();
+    }
+
+    const functionName = names.pop()!;
+    const moduleName = names.join('.');
+    this.expect('(');
+    const args = this.parseArgumentList(')');
+    this.expect(')');
+
+    return new CallNode(moduleName, functionName, args, this.source.slice(start, this.pos));
+  }
+
+  /**
+   * Read a module or function name
+   */
+  private readName(): string {
+    this.skipWhitespace();
+    if (!/^[A-Za-z_]$/.test(this.peek())) {
+      throw this.isAtEnd()
+        ? this.error('Expected module or function name but reached end of input')
+        : this.error(
+            `Invalid module or function name at position ${this.pos}. Names must start with letter or underscore and contain only letters, numbers, and underscores`
+          );
+    }
+
+    const match = /^[A-Za-z_]\w*/.exec(this.source.slice(this.pos))!;
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Parse an argument that may be a nested call or the pipe placeholder
+   */
+  protected parseArgument(): any {
+    this.skipWhitespace();
+    const rest = this.source.slice(this.pos);
+
+    if (new RegExp(`^${PIPE_PLACEHOLDER}(?![\\w$])`).test(rest)) {
+      if (!this.pipeInput) {
+        throw this.error(`'${PIPE_PLACEHOLDER}' can only be used in a pipe stage after '|>'`);
+      }
+      if (++this.placeholderUses > 1) {
+        throw this.error(`'${PIPE_PLACEHOLDER}' can only be used once per pipe stage`);
+      }
+      this.pos += PIPE_PLACEHOLDER.length;
+      return this.pipeInput;
+    }
+
+    if (/^[A-Za-z_]\w*\s*\./.test(rest)) {
+      return this.parseCall();
+    }
+
+    return super.parseArgument();
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Import graph of loaded scripts, built from the require cache, used to find
+ * which modules must be reloaded when a file they import changes
+ */
+
+import path from 'path';
+import { ScriptRoots } from './scriptRoots';
+
+export class DependencyGraph {
+  // Script file -> script files it imports directly
+  private readonly imports = new Map<string, string[]>();
+
+  constructor(private readonly roots: ScriptRoots) {}
+
+  /**
+   * Record the imports of a freshly loaded script and everything it pulls in.
+   * Returns the import cycles found, each as a list of files ending where it started.
+   */
+  public record(entryPath: string): string[][] {
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (file: string): void => {
+      const cycleStart = stack.indexOf(file);
+      if (cycleStart !== -1) {
+        cycles.push([...stack.slice(cycleStart), file]);
+        return;
+      }
+      if (visited.has(file)) {
+        return;
+      }
+      visited.add(file);
+
+      const cached = require.cache[file];
+      if (cached) {
+        this.imports.set(
+          file,
+          cached.children.map((child) => child.filename).filter((child) => this.isScript(child))
+        );
+      }
+
+      stack.push(file);
+      (this.imports.get(file) || []).forEach(visit);
+      stack.pop();
+    };
+
+    visit(entryPath);
+    return cycles;
+  }
+
+  /**
+   * Forget the imports recorded for a file that no longer exists
+   */
+  public remove(file: string): void {
+    this.imports.delete(file);
+  }
+
+  /**
+   * Every recorded script and every script they import
+   */
+  public knownFiles(): string[] {
+    return Array.from(
+      new Set<string>([...this.imports.keys(), ...Array.from(this.imports.values()).flat()])
+    );
+  }
+
+  /**
+   * Every known file that imports one of the given files (directly or through
+   * other scripts), including files at or below the given paths themselves
+   */
+  public dependentsOf(changedPaths: string[]): Set<string> {
+    const dependents = new Set<string>(
+      this.knownFiles().filter((file) =>
+        changedPaths.some((changed) => this.isWithin(file, changed))
+      )
+    );
+
+    let added = true;
+    while (added) {
+      added = false;
+      this.imports.forEach((children, file) => {
+        if (!dependents.has(file) && children.some((child) => dependents.has(child))) {
+          dependents.add(file);
+          added = true;
+        }
+      });
+    }
+
+    return dependents;
+  }
+
+  /**
+   * Order files so that each comes after the files it imports. Files in an
+   * import cycle keep their relative input order.
+   */
+  public sortByDependencies(files: string[]): string[] {
+    const wanted = new Set(files);
+    const visited = new Set<string>();
+    const ordered: string[] = [];
+
+    const visit = (file: string): void => {
+      if (visited.has(file)) {
+        return;
+      }
+      visited.add(file);
+      (this.imports.get(file) || []).forEach(visit);
+      if (wanted.has(file)) {
+        ordered.push(file);
+      }
+    };
+
+    files.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Render an import cycle with the mount paths of its files
+   */
+  public describeCycle(cycle: string[]): string {
+    return cycle.map((file) => this.roots.mountPath(file)).join(' → ');
+  }
+
+  /**
+   * Scripts are files below a script root that are not installed packages
+   */
+  private isScript(file: string): boolean {
+    return this.roots.contains(file);
+  }
+
+  /**
+   * Check whether a file is the given path or lies below it
+   */
+  private isWithin(file: string, parentPath: string): boolean {
+    const relative = path.relative(path.resolve(parentPath), file);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+}
@@ -0,0 +1,760 @@
+/**
+ * Function signature extraction from script source using the TypeScript compiler API
+ */
+
+import * as ts from 'typescript';
+import {
+  ClassInfo,
+  DocTag,
+  FunctionInfo,
+  FunctionPolicy,
+  FunctionSignature,
+  Parameter,
+} from '../types';
+import { logger } from '../utils/logger';
+import { LIFECYCLE_HOOKS } from './moduleLoader';
+
+type FunctionNode =
+  | ts.FunctionDeclaration
+  | ts.ArrowFunction
+  | ts.FunctionExpression
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration;
+
+// Return types of functions whose results are streamed value by value
+const STREAMING_RETURN_TYPE = /^(Async)?(Generator|IterableIterator|Iterator)\b/;
+
+const GENERATOR_CONSTRUCTORS = ['GeneratorFunction', 'AsyncGeneratorFunction'];
+
+// Durations in policy tags: a number with an optional unit, milliseconds by default
+const DURATION = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/;
+
+// @rateLimit values such as `10/min`, `5/10s` or `100 / hour`
+const RATE_LIMIT = /^(\d+)\s*\/\s*(\d+(?:\.\d+)?)?\s*(ms|s|sec|second|m|min|minute|h|hour)s?$/;
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  m: 60000,
+  min: 60000,
+  minute: 60000,
+  h: 3600000,
+  hour: 3600000,
+};
+
+// Built-in method every instance has; it runs the class's own dispose() if there is one
+const DISPOSE_METHOD = 'dispose';
+
+// Declarations behind one exported name: overload signatures first, implementation last
+interface FunctionDeclarations {
+  nodes: FunctionNode[];
+  docNode: ts.Node;
+}
+
+export class FunctionExtractor {
+  /**
+   * Build FunctionInfo for every function in the module exports, except classes
+   * and lifecycle hooks
+   */
+  static extract(
+    moduleExports: any,
+    fileContent: string,
+    moduleName: string,
+    fileName: string
+  ): FunctionInfo[] {
+    const sourceFile = this.parseSource(fileContent, fileName);
+    const { locals, exported } = this.collectDeclarations(sourceFile);
+
+    return Object.keys(moduleExports)
+      .filter((funcName) => typeof moduleExports[funcName] === 'function')
+      .filter((funcName) => !this.isClass(moduleExports[funcName]))
+      .filter((funcName) => !(LIFECYCLE_HOOKS as string[]).includes(funcName))
+      .map((funcName) => {
+        const declarations = exported.get(funcName) || locals.get(funcName);
+        if (declarations) {
+          return this.describeFunction(funcName, moduleName, declarations, sourceFile);
+        }
+        return this.describeRuntimeFunction(funcName, moduleName, moduleExports[funcName]);
+      });
+  }
+
+  /**
+   * Describe the class instances of a module are created from: its default-exported
+   * class, or its only exported class. Returns null when there is no such class.
+   */
+  static extractClass(
+    moduleExports: any,
+    fileContent: string,
+    moduleName: string,
+    fileName: string
+  ): ClassInfo | null {
+    const classNames = Object.keys(moduleExports).filter((name) =>
+      this.isClass(moduleExports[name])
+    );
+    const exportName = classNames.includes('default')
+      ? 'default'
+      : classNames.length === 1
+        ? classNames[0]
+        : null;
+    if (!exportName) {
+      return null;
+    }
+
+    const classRef = moduleExports[exportName];
+    const sourceFile = this.parseSource(fileContent, fileName);
+    const declaration = sourceFile.statements
+      .filter(ts.isClassDeclaration)
+      .find((node) =>
+        node.name
+          ? node.name.text === classRef.name
+          : this.hasModifier(node, ts.SyntaxKind.DefaultKeyword)
+      );
+    const instanceName = this.exampleInstanceName(moduleName);
+
+    // Parameter descriptions come from the constructor's JSDoc
+    const constructor = declaration?.members.filter(ts.isConstructorDeclaration).pop();
+    const constructorInfo = constructor
+      ? this.describeFunction(
+          'new',
+          moduleName,
+          { nodes: [constructor], docNode: constructor },
+          sourceFile
+        )
+      : null;
+    const classDoc = declaration ? this.readJSDoc(declaration) : { description: '' };
+
+    return {
+      name: classRef.name,
+      exportName,
+      description:
+        classDoc.description ||
+        (constructorInfo && constructorInfo.description !== 'No description available'
+          ? constructorInfo.description
+          : `Create a named ${classRef.name} instance`),
+      constructorParameters: constructorInfo?.parameters || [],
+      methods: this.describeMethods(classRef, declaration, instanceName, sourceFile),
+    };
+  }
+
+  /**
+   * Describe `module.new(name, ...args)`, which creates a named instance of the
+   * module's class
+   */
+  static describeConstructor(classInfo: ClassInfo, moduleName: string): FunctionInfo {
+    const nameParameter: Parameter = {
+      name: 'name',
+      type: 'string',
+      description: 'Name of the new instance',
+    };
+    const exampleArgs = [
+      JSON.stringify(this.exampleInstanceName(moduleName)),
+      ...this.exampleArguments(classInfo.constructorParameters),
+    ];
+
+    return {
+      name: 'new',
+      parameters: [nameParameter, ...classInfo.constructorParameters],
+      description: classInfo.description,
+      example: `${moduleName}.new(${exampleArgs.join(', ')})`,
+      returnType: 'string',
+      tags: [],
+    };
+  }
+
+  /**
+   * Instance name used in the examples of a module's class, e.g. `counter1`
+   */
+  private static exampleInstanceName(moduleName: string): string {
+    return `${moduleName.split('.').pop()}1`;
+  }
+
+  /**
+   * Check whether an exported function is a class
+   */
+  private static isClass(value: any): boolean {
+    return typeof value === 'function' && /^class\b/.test(Function.prototype.toString.call(value));
+  }
+
+  /**
+   * Parse script source, as TypeScript or JavaScript depending on the file name
+   */
+  private static parseSource(fileContent: string, fileName: string): ts.SourceFile {
+    return ts.createSourceFile(
+      fileName,
+      fileContent,
+      ts.ScriptTarget.Latest,
+      true,
+      /\.[cm]?tsx?$/.test(fileName) ? ts.ScriptKind.TS : ts.ScriptKind.JS
+    );
+  }
+
+  /**
+   * Describe the methods callable on instances of a class, including inherited
+   * ones. Static, private and protected methods and accessors are left out, and
+   * the built-in dispose method is added when the class has none.
+   */
+  private static describeMethods(
+    classRef: any,
+    declaration: ts.ClassDeclaration | undefined,
+    instanceName: string,
+    sourceFile: ts.SourceFile
+  ): FunctionInfo[] {
+    const declarations = new Map<string, FunctionDeclarations>();
+    const hidden = new Set<string>(['constructor']);
+
+    declaration?.members.forEach((member) => {
+      if (!ts.isMethodDeclaration(member) || !ts.isIdentifier(member.name)) {
+        return;
+      }
+      if (
+        this.hasModifier(member, ts.SyntaxKind.PrivateKeyword) ||
+        this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword)
+      ) {
+        hidden.add(member.name.text);
+        return;
+      }
+
+      const existing = declarations.get(member.name.text);
+      if (existing) {
+        existing.nodes.push(member);
+      } else {
+        declarations.set(member.name.text, { nodes: [member], docNode: member });
+      }
+    });
+
+    const methods = new Map<string, FunctionInfo>();
+    for (let proto = classRef.prototype; proto && proto !== Object.prototype; ) {
+      Object.getOwnPropertyNames(proto).forEach((name) => {
+        const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+        if (methods.has(name) || hidden.has(name) || typeof descriptor?.value !== 'function') {
+          return;
+        }
+
+        const methodDeclarations = declarations.get(name);
+        methods.set(
+          name,
+          methodDeclarations
+            ? this.describeFunction(name, instanceName, methodDeclarations, sourceFile)
+            : this.describeRuntimeFunction(name, instanceName, descriptor.value)
+        );
+      });
+      proto = Object.getPrototypeOf(proto);
+    }
+
+    if (!methods.has(DISPOSE_METHOD)) {
+      methods.set(DISPOSE_METHOD, {
+        name: DISPOSE_METHOD,
+        parameters: [],
+        description: 'Dispose the instance',
+        example: `${instanceName}.${DISPOSE_METHOD}()`,
+        returnType: 'void',
+        tags: [],
+      });
+    }
+
+    return Array.from(methods.values());
+  }
+
+  /**
+   * Collect top-level function declarations and map exported names to them
+   */
+  private static collectDeclarations(sourceFile: ts.SourceFile): {
+    locals: Map<string, FunctionDeclarations>;
+    exported: Map<string, FunctionDeclarations>;
+  } {
+    const locals = new Map<string, FunctionDeclarations>();
+    const exported = new Map<string, FunctionDeclarations>();
+    const exportAliases: [string, string][] = [];
+
+    const addLocal = (name: string, node: FunctionNode, docNode: ts.Node): void => {
+      const existing = locals.get(name);
+      if (existing) {
+        existing.nodes.push(node);
+      } else {
+        locals.set(name, { nodes: [node], docNode });
+      }
+    };
+
+    sourceFile.statements.forEach((statement) => {
+      const isExported = this.hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+      const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+      if (ts.isFunctionDeclaration(statement)) {
+        const name = statement.name?.text;
+        if (name) {
+          addLocal(name, statement, statement);
+        }
+        if (isExported && name) {
+          exportAliases.push([name, isDefault ? 'default' : name]);
+        } else if (isExported) {
+          exported.set('default', { nodes: [statement], docNode: statement });
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) => {
+          const fn = this.unwrapFunction(declaration.initializer);
+          if (fn && ts.isIdentifier(declaration.name)) {
+            addLocal(declaration.name.text, fn, declaration);
+            if (isExported) {
+              exportAliases.push([declaration.name.text, declaration.name.text]);
+            }
+          }
+        });
+      } else if (
+        ts.isExportDeclaration(statement) &&
+        !statement.moduleSpecifier &&
+        statement.exportClause &&
+        ts.isNamedExports(statement.exportClause)
+      ) {
+        // export { a, b as c }
+        statement.exportClause.elements.forEach((element) => {
+          exportAliases.push([(element.propertyName || element.name).text, element.name.text]);
+        });
+      } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        // export default foo / export default () => {} / export default { a, b }
+        const fn = this.unwrapFunction(statement.expression);
+        if (fn) {
+          exported.set('default', { nodes: [fn], docNode: statement });
+        } else if (ts.isIdentifier(statement.expression)) {
+          exportAliases.push([statement.expression.text, 'default']);
+        } else if (ts.isObjectLiteralExpression(statement.expression)) {
+          this.collectObjectExports(statement.expression, exported, exportAliases);
+        }
+      } else if (ts.isExpressionStatement(statement)) {
+        this.collectCommonJsExports(statement, exported, exportAliases);
+      }
+    });
+
+    exportAliases.forEach(([localName, exportedName]) => {
+      const declarations = locals.get(localName);
+      if (declarations && !exported.has(exportedName)) {
+        exported.set(exportedName, declarations);
+      }
+    });
+
+    return { locals, exported };
+  }
+
+  /**
+   * Handle `exports.a = ...`, `module.exports.a = ...`, `module.exports = { ... }`
+   * and `module.exports = function`
+   */
+  private static collectCommonJsExports(
+    statement: ts.ExpressionStatement,
+    exported: Map<string, FunctionDeclarations>,
+    exportAliases: [string, string][]
+  ): void {
+    const expression = statement.expression;
+    if (
+      !ts.isBinaryExpression(expression) ||
+      expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken
+    ) {
+      return;
+    }
+
+    const target = expression.left.getText();
+    const assignment = /^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/.exec(target);
+
+    if (assignment) {
+      const fn = this.unwrapFunction(expression.right);
+      if (fn) {
+        exported.set(assignment[1], { nodes: [fn], docNode: statement });
+      } else if (ts.isIdentifier(expression.right)) {
+        exportAliases.push([expression.right.text, assignment[1]]);
+      }
+      return;
+    }
+
+    if (target !== 'module.exports') {
+      return;
+    }
+
+    const fn = this.unwrapFunction(expression.right);
+    if (fn) {
+      exported.set('default', { nodes: [fn], docNode: statement });
+    } else if (ts.isObjectLiteralExpression(expression.right)) {
+      this.collectObjectExports(expression.right, exported, exportAliases);
+    }
+  }
+
+  /**
+   * Handle the members of an exported object literal, which are exposed as
+   * functions of the module
+   */
+  private static collectObjectExports(
+    object: ts.ObjectLiteralExpression,
+    exported: Map<string, FunctionDeclarations>,
+    exportAliases: [string, string][]
+  ): void {
+    object.properties.forEach((property) => {
+      if (ts.isShorthandPropertyAssignment(property)) {
+        exportAliases.push([property.name.text, property.name.text]);
+      } else if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name)) {
+        const fn = this.unwrapFunction(property.initializer);
+        if (fn) {
+          exported.set(property.name.text, { nodes: [fn], docNode: property });
+        } else if (ts.isIdentifier(property.initializer)) {
+          exportAliases.push([property.initializer.text, property.name.text]);
+        }
+      } else if (ts.isMethodDeclaration(property) && ts.isIdentifier(property.name)) {
+        exported.set(property.name.text, { nodes: [property], docNode: property });
+      }
+    });
+  }
+
+  /**
+   * Check whether a statement carries the given modifier keyword
+   */
+  private static hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return (
+      ts.canHaveModifiers(node) &&
+      (ts.getModifiers(node) || []).some((modifier) => modifier.kind === kind)
+    );
+  }
+
+  /**
+   * Return the function behind an initializer, looking through parentheses and type assertions
+   */
+  private static unwrapFunction(node: ts.Expression | undefined): FunctionNode | null {
+    let current = node;
+    while (
+      current &&
+      (ts.isParenthesizedExpression(current) ||
+        ts.isAsExpression(current) ||
+        ts.isSatisfiesExpression(current) ||
+        ts.isTypeAssertionExpression(current))
+    ) {
+      current = current.expression;
+    }
+
+    if (current && (ts.isArrowFunction(current) || ts.isFunctionExpression(current))) {
+      return current;
+    }
+    return null;
+  }
+
+  /**
+   * Build FunctionInfo from source declarations and their JSDoc
+   */
+  private static describeFunction(
+    funcName: string,
+    moduleName: string,
+    declarations: FunctionDeclarations,
+    sourceFile: ts.SourceFile
+  ): FunctionInfo {
+    const overloadNodes = declarations.nodes.filter(
+      (node) => (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) && !node.body
+    );
+    const publicNodes = overloadNodes.length > 0 ? overloadNodes : [declarations.nodes[0]];
+    const signatures = publicNodes.map((node) => this.describeSignature(node, sourceFile));
+
+    const { description, tags } = this.readJSDoc(declarations.docNode);
+    const primary = signatures[0];
+
+    // Destructured parameters have no name to match, so fall back to the tag position
+    const paramTags = tags.filter((tag) => tag.tag === 'param');
+    primary.parameters.forEach((param, index) => {
+      const paramTag =
+        paramTags.find((tag) => tag.name === param.name) ||
+        (/^[{[]/.test(param.name) ? paramTags[index] : undefined);
+      if (paramTag && paramTag.text) {
+        param.description = paramTag.text.replace(/^-\s*/, '');
+      }
+    });
+
+    const functionInfo: FunctionInfo = {
+      name: funcName,
+      parameters: primary.parameters,
+      description: description || 'No description available',
+      example: this.buildExample(funcName, moduleName, primary.parameters, tags),
+      returnType: primary.returnType,
+      tags,
+    };
+
+    if (STREAMING_RETURN_TYPE.test(primary.returnType)) {
+      functionInfo.streaming = true;
+    }
+
+    const policy = this.readPolicy(`${moduleName}.${funcName}`, tags);
+    if (Object.keys(policy).length > 0) {
+      functionInfo.policy = policy;
+    }
+
+    const typeParameters = publicNodes[0].typeParameters;
+    if (typeParameters && typeParameters.length > 0) {
+      functionInfo.typeParameters = typeParameters.map((tp) =>
+        this.normalizeText(tp.getText(sourceFile))
+      );
+    }
+
+    if (signatures.length > 1) {
+      functionInfo.overloads = signatures;
+    }
+
+    return functionInfo;
+  }
+
+  /**
+   * Fall back to the runtime function source when no declaration was found,
+   * e.g. for functions re-exported from another file
+   */
+  private static describeRuntimeFunction(
+    funcName: string,
+    moduleName: string,
+    fn: (...args: any[]) => any
+  ): FunctionInfo {
+    let parameters: Parameter[] = [];
+
+    const runtimeSource = ts.createSourceFile(
+      'runtime.js',
+      `(${Function.prototype.toString.call(fn)})`,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.JS
+    );
+    const statement = runtimeSource.statements[0];
+    if (statement && ts.isExpressionStatement(statement)) {
+      const fnNode = this.unwrapFunction(statement.expression);
+      if (fnNode) {
+        parameters = this.describeSignature(fnNode, runtimeSource).parameters;
+      }
+    }
+
+    const runtimeFunctionInfo: FunctionInfo = {
+      name: funcName,
+      parameters,
+      description: 'No description available',
+      example: this.buildExample(funcName, moduleName, parameters, []),
+      returnType: 'any',
+      tags: [],
+    };
+
+    if (GENERATOR_CONSTRUCTORS.includes(fn.constructor.name)) {
+      runtimeFunctionInfo.returnType = `${fn.constructor.name.replace('Function', '')}<any>`;
+      runtimeFunctionInfo.streaming = true;
+    }
+
+    return runtimeFunctionInfo;
+  }
+
+  /**
+   * Describe parameters and return type of a single signature
+   */
+  private static describeSignature(
+    node: FunctionNode,
+    sourceFile: ts.SourceFile
+  ): FunctionSignature {
+    const parameters = node.parameters
+      .filter((param) => !(ts.isIdentifier(param.name) && param.name.text === 'this'))
+      .map((param) => this.describeParameter(param, sourceFile));
+
+    const isAsync = this.hasModifier(node, ts.SyntaxKind.AsyncKeyword);
+    let returnType = node.type ? this.normalizeText(node.type.getText(sourceFile)) : 'any';
+    if (!node.type && !ts.isArrowFunction(node) && node.asteriskToken) {
+      returnType = isAsync ? 'AsyncGenerator<any>' : 'Generator<any>';
+    } else if (!node.type && isAsync) {
+      returnType = 'Promise<any>';
+    }
+
+    return { parameters, returnType };
+  }
+
+  /**
+   * Describe a single parameter declaration
+   */
+  private static describeParameter(
+    param: ts.ParameterDeclaration,
+    sourceFile: ts.SourceFile
+  ): Parameter {
+    const rest = !!param.dotDotDotToken;
+    const name = ts.isIdentifier(param.name)
+      ? param.name.text
+      : this.normalizeText(param.name.getText(sourceFile));
+
+    let type: string;
+    if (param.type) {
+      type = this.normalizeText(param.type.getText(sourceFile));
+    } else {
+      type = this.inferTypeFromInitializer(param.initializer) || (rest ? 'any[]' : 'any');
+    }
+
+    const parameter: Parameter = {
+      name,
+      type,
+      optional: rest || !!param.questionToken || !!param.initializer,
+    };
+
+    if (param.initializer) {
+      parameter.defaultValue = this.normalizeText(param.initializer.getText(sourceFile));
+    }
+    if (rest) {
+      parameter.rest = true;
+    }
+
+    return parameter;
+  }
+
+  /**
+   * Infer a primitive type from a literal default value
+   */
+  private static inferTypeFromInitializer(initializer: ts.Expression | undefined): string | null {
+    if (!initializer) {
+      return null;
+    }
+    if (ts.isStringLiteralLike(initializer)) {
+      return 'string';
+    }
+    if (ts.isNumericLiteral(initializer)) {
+      return 'number';
+    }
+    if (
+      initializer.kind === ts.SyntaxKind.TrueKeyword ||
+      initializer.kind === ts.SyntaxKind.FalseKeyword
+    ) {
+      return 'boolean';
+    }
+    if (ts.isArrayLiteralExpression(initializer)) {
+      return 'any[]';
+    }
+    return null;
+  }
+
+  /**
+   * Read the description and tags of the JSDoc block closest to a declaration
+   */
+  private static readJSDoc(node: ts.Node): { description: string; tags: DocTag[] } {
+    const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+    const doc = docs[docs.length - 1];
+    if (!doc) {
+      return { description: '', tags: [] };
+    }
+
+    const tags: DocTag[] = (doc.tags || []).map((tag) => {
+      const docTag: DocTag = {
+        tag: tag.tagName.text,
+        text: (ts.getTextOfJSDocComment(tag.comment) || '').trim(),
+      };
+      if (ts.isJSDocParameterTag(tag)) {
+        docTag.name = tag.name.getText();
+      }
+      return docTag;
+    });
+
+    return {
+      description: (ts.getTextOfJSDocComment(doc.comment) || '').trim(),
+      tags,
+    };
+  }
+
+  /**
+   * Read the execution policy tags. Tags with invalid values are ignored with a warning.
+   */
+  private static readPolicy(callName: string, tags: DocTag[]): FunctionPolicy {
+    const policy: FunctionPolicy = {};
+    const ignore = (tag: DocTag) =>
+      logger.warn(`Ignoring invalid @${tag.tag} on ${callName}: '${tag.text}'`);
+
+    tags.forEach((tag) => {
+      switch (tag.tag) {
+        case 'timeout': {
+          const match = DURATION.exec(tag.text);
+          const timeoutMs = match ? Number(match[1]) * UNIT_MS[match[2] || 'ms'] : 0;
+          if (timeoutMs > 0) {
+            policy.timeoutMs = timeoutMs;
+          } else {
+            ignore(tag);
+          }
+          break;
+        }
+
+        case 'rateLimit': {
+          const match = RATE_LIMIT.exec(tag.text);
+          const maxCalls = match ? Number(match[1]) : 0;
+          const windowMs = match ? Number(match[2] || 1) * UNIT_MS[match[3]] : 0;
+          if (maxCalls > 0 && windowMs > 0) {
+            policy.rateLimit = { maxCalls, windowMs };
+          } else {
+            ignore(tag);
+          }
+          break;
+        }
+
+        case 'role':
+          if (/^[\w.:-]+$/.test(tag.text)) {
+            policy.role = tag.text;
+          } else {
+            ignore(tag);
+          }
+          break;
+
+        case 'hidden':
+          policy.hidden = true;
+          break;
+
+        case 'deprecated':
+          policy.deprecated = tag.text;
+          break;
+      }
+    });
+
+    return policy;
+  }
+
+  /**
+   * Use the @example tag when present, otherwise generate an example call
+   */
+  private static buildExample(
+    funcName: string,
+    moduleName: string,
+    parameters: Parameter[],
+    tags: DocTag[]
+  ): string {
+    const exampleTag = tags.find((tag) => tag.tag === 'example');
+    const exampleText = exampleTag?.text
+      .split('\n')
+      .find((line) => line.trim())
+      ?.trim();
+
+    if (exampleText) {
+      // If example doesn't include module name, add it
+      return exampleText.includes(`${moduleName}.`) ? exampleText : `${moduleName}.${exampleText}`;
+    }
+
+    return `${moduleName}.${funcName}(${this.exampleArguments(parameters).join(', ')})`;
+  }
+
+  /**
+   * Example argument values for the parameters of a generated example call
+   */
+  private static exampleArguments(parameters: Parameter[]): string[] {
+    return parameters
+      .filter((param) => !param.rest)
+      .map((param, index) => {
+        switch (param.type.toLowerCase()) {
+          case 'string':
+            return `"example"`;
+          case 'number':
+            return `${index + 1}`;
+          case 'boolean':
+            return 'true';
+          case 'array':
+          case 'array<string>':
+          case 'string[]':
+            return '["item1", "item2"]';
+          case 'array<number>':
+          case 'number[]':
+            return '[1, 2, 3]';
+          default:
+            return `param${index + 1}`;
+        }
+      });
+  }
+
+  /**
+   * Collapse whitespace in source snippets spanning several lines
+   */
+  private static normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
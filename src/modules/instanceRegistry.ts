@@ -0,0 +1,217 @@
+/**
+ * Named instances of script classes. Each instance lives on the execution worker
+ * that created it; this registry keeps what the main thread needs to know about
+ * them and applies INSTANCE_RELOAD_POLICY when their class's file is reloaded.
+ */
+
+import { ExecutionLimits, FunctionInfo, InstanceInfo, ModuleInfo } from '../types';
+import { CONFIG } from '../utils/config';
+import { logger } from '../utils/logger';
+import { ExecutionOptions, ExecutionResult, InstanceLostError, workerPool } from './workerPool';
+
+// Instance names are called like modules, so they follow the same rules
+const INSTANCE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Raised when an instance cannot be created or found
+ */
+export class InstanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InstanceError';
+  }
+}
+
+interface InstanceRecord extends InstanceInfo {
+  modulePath: string;
+  exportName: string;
+}
+
+export class InstanceRegistry {
+  private instances = new Map<string, InstanceRecord>();
+  private pending = new Set<string>();
+
+  /**
+   * Find a live instance. Instances lost with a recycled worker are forgotten here.
+   */
+  public get(name: string): InstanceRecord | null {
+    const instance = this.instances.get(name);
+    if (instance && !workerPool.hasInstance(name)) {
+      this.instances.delete(name);
+      return null;
+    }
+    return instance || null;
+  }
+
+  /**
+   * Why an instance was lost with the worker holding it, or null when it is
+   * alive or never existed
+   */
+  public lossOf(name: string): string | null {
+    return this.get(name) ? null : workerPool.instanceLoss(name);
+  }
+
+  /**
+   * Live instances, oldest first, without methods tagged @hidden
+   */
+  public list(): InstanceInfo[] {
+    return Array.from(this.instances.keys())
+      .map((name) => this.get(name))
+      .filter((instance): instance is InstanceRecord => instance !== null)
+      .map(({ modulePath: _path, exportName: _export, ...info }) => ({
+        ...info,
+        methods: info.methods.filter((method) => !method.policy?.hidden),
+      }));
+  }
+
+  /**
+   * Create a named instance of a module's class under a free name. Callers make
+   * sure the name is not a module name, since modules take precedence in calls.
+   */
+  public async create(
+    name: string,
+    moduleName: string,
+    moduleInfo: ModuleInfo,
+    args: any[],
+    limits: ExecutionLimits,
+    options: ExecutionOptions
+  ): Promise<ExecutionResult> {
+    const classInfo = moduleInfo.classInfo;
+    if (!classInfo) {
+      throw new InstanceError(`Module '${moduleName}' does not export a class`);
+    }
+    if (!INSTANCE_NAME.test(name)) {
+      throw new InstanceError(
+        `Invalid instance name '${name}'. Names must start with letter or underscore and contain only letters, numbers, and underscores`
+      );
+    }
+    if (this.get(name) || this.pending.has(name)) {
+      throw new InstanceError(`Name '${name}' is already in use`);
+    }
+    if (this.instances.size + this.pending.size >= CONFIG.MAX_INSTANCES) {
+      throw new InstanceError(`Too many instances. At most ${CONFIG.MAX_INSTANCES} are allowed`);
+    }
+
+    this.pending.add(name);
+    try {
+      const result = await workerPool.construct(
+        name,
+        moduleInfo.path,
+        classInfo.exportName,
+        args,
+        limits,
+        options
+      );
+
+      this.instances.set(name, {
+        name,
+        module: moduleName,
+        className: classInfo.name,
+        createdAt: new Date().toISOString(),
+        methods: this.forInstance(classInfo.methods, name),
+        modulePath: moduleInfo.path,
+        exportName: classInfo.exportName,
+      });
+      logger.info(`Created instance ${name} of ${moduleName}.${classInfo.name}`);
+      return result;
+    } finally {
+      this.pending.delete(name);
+    }
+  }
+
+  /**
+   * Call a method of a live instance on the worker holding it
+   */
+  public invoke(
+    name: string,
+    methodName: string,
+    args: any[],
+    limits: ExecutionLimits,
+    options: ExecutionOptions
+  ): Promise<ExecutionResult> {
+    return workerPool.invoke(name, methodName, args, limits, options);
+  }
+
+  /**
+   * Run an instance's dispose() method and forget the instance, even when
+   * dispose() throws. Throws InstanceLostError for instances lost with their worker.
+   */
+  public async dispose(
+    name: string,
+    limits: ExecutionLimits = CONFIG.EXECUTION_LIMITS
+  ): Promise<ExecutionResult> {
+    if (!this.get(name)) {
+      const loss = workerPool.instanceLoss(name);
+      throw loss === null
+        ? new InstanceError(`Instance '${name}' not found`)
+        : new InstanceLostError(name, loss);
+    }
+
+    try {
+      return await workerPool.dispose(name, limits);
+    } finally {
+      this.instances.delete(name);
+      logger.info(`Disposed instance ${name}`);
+    }
+  }
+
+  /**
+   * Apply INSTANCE_RELOAD_POLICY to the instances of a module that was reloaded,
+   * or removed when moduleInfo is null. Instances are disposed when their class
+   * is gone; a failed upgrade leaves the instance on its old code.
+   */
+  public applyReloadPolicy(moduleName: string, moduleInfo: ModuleInfo | null): void {
+    const policy = CONFIG.INSTANCE_RELOAD_POLICY;
+    const classInfo = moduleInfo?.classInfo;
+
+    this.instances.forEach((instance, name) => {
+      if (instance.module !== moduleName || !this.get(name)) {
+        return;
+      }
+
+      if (!moduleInfo || !classInfo || policy === 'dispose') {
+        logger.info(
+          `Disposing instance ${name} after ${moduleName} was ${moduleInfo ? 'reloaded' : 'removed'}`
+        );
+        this.dispose(name).catch((error) => {
+          logger.warn(`Instance ${name} failed to dispose:`, error.message);
+        });
+        return;
+      }
+
+      if (policy === 'keep') {
+        logger.debug(`Instance ${name} keeps running the previous code of ${moduleName}`);
+        return;
+      }
+
+      workerPool
+        .upgrade(name, moduleInfo.path, classInfo.exportName)
+        .then(() => {
+          Object.assign(instance, {
+            className: classInfo.name,
+            methods: this.forInstance(classInfo.methods, name),
+            modulePath: moduleInfo.path,
+            exportName: classInfo.exportName,
+          });
+          logger.info(`Upgraded instance ${name} to the reloaded ${moduleName}.${classInfo.name}`);
+        })
+        .catch((error) => {
+          logger.warn(`Instance ${name} keeps its previous code, upgrade failed:`, error.message);
+        });
+    });
+  }
+
+  /**
+   * Point method examples at an instance, e.g. `counter1.increment()` becomes
+   * `c1.increment()`
+   */
+  private forInstance(methods: FunctionInfo[], name: string): FunctionInfo[] {
+    return methods.map((method) => ({
+      ...method,
+      example: method.example.replace(/^[A-Za-z_]\w*\./, `${name}.`),
+    }));
+  }
+}
+
+// Export singleton instance
+export const instanceRegistry = new InstanceRegistry();
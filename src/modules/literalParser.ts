@@ -0,0 +1,516 @@
+/**
+ * Safe parser for JavaScript-style literal values in function call arguments.
+ * Values are built directly from the source text; nothing is ever evaluated.
+ */
+
+// Maximum nesting of arrays and objects in a single argument list
+const MAX_DEPTH = 32;
+
+// Key that would replace the object's prototype when the value is copied
+const FORBIDDEN_KEY = '__proto__';
+
+const SIMPLE_ESCAPES: { [key: string]: string } = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '0': '\0',
+};
+
+/**
+ * Raised when argument text is not a valid literal
+ */
+export class LiteralParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(message);
+    this.name = 'LiteralParseError';
+  }
+}
+
+/**
+ * Argument passed by parameter name, e.g. `name: "Tom"`
+ */
+export interface NamedArgument {
+  name: string;
+  value: any;
+}
+
+/**
+ * Parsed argument list: positional arguments followed by named arguments
+ */
+export interface ParsedArguments {
+  positional: any[];
+  named: NamedArgument[];
+}
+
+export class LiteralParser {
+  protected pos: number = 0;
+
+  constructor(protected readonly source: string) {}
+
+  /**
+   * Parse an argument list such as `'Tom', 3, { loud: true }` or `name: 'Tom', times: 3`
+   */
+  static parseArguments(source: string): ParsedArguments {
+    const parser = new LiteralParser(source);
+    const args = parser.parseArgumentList();
+    parser.expectEnd();
+    return args;
+  }
+
+  /**
+   * Parse top-level arguments up to the closing character (or the end of input when
+   * empty), where named arguments may follow positional ones
+   */
+  protected parseArgumentList(closing: string = ''): ParsedArguments {
+    const result: ParsedArguments = { positional: [], named: [] };
+    this.skipWhitespace();
+
+    while (this.peek() !== closing) {
+      const nameStart = this.pos;
+      const name = this.readArgumentName();
+
+      if (name !== null) {
+        if (result.named.some((arg) => arg.name === name)) {
+          throw new LiteralParseError(`Duplicate named argument '${name}'`, nameStart);
+        }
+        result.named.push({ name, value: this.parseArgument() });
+      } else if (result.named.length > 0) {
+        throw this.error('Positional arguments must come before named arguments');
+      } else {
+        result.positional.push(this.parseArgument());
+      }
+
+      if (!this.consumeSeparator()) {
+        break;
+      }
+
+      // Top-level trailing commas are rejected to catch incomplete calls
+      if (this.peek() === closing) {
+        throw this.error('Trailing comma in arguments. Remove the comma after the last argument');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a single top-level argument
+   */
+  protected parseArgument(): any {
+    return this.parseValue(0);
+  }
+
+  /**
+   * Consume `name:` at the start of a named argument, if present
+   */
+  protected readArgumentName(): string | null {
+    const match = /^([A-Za-z_$][\w$]*)\s*:/.exec(this.source.slice(this.pos));
+    if (!match) {
+      return null;
+    }
+    this.pos += match[0].length;
+    return match[1];
+  }
+
+  /**
+   * Parse comma-separated values up to the closing character
+   */
+  protected parseList(closing: string, depth: number): any[] {
+    const values: any[] = [];
+    this.skipWhitespace();
+
+    while (!this.isAtEnd() && this.peek() !== closing) {
+      values.push(this.parseValue(depth));
+      if (!this.consumeSeparator()) {
+        break;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Consume a comma between values, returning false when there is none
+   */
+  protected consumeSeparator(): boolean {
+    this.skipWhitespace();
+    if (this.peek() !== ',') {
+      return false;
+    }
+
+    this.pos++;
+    this.skipWhitespace();
+    if (this.peek() === ',') {
+      throw this.error('Empty value between commas');
+    }
+    return true;
+  }
+
+  /**
+   * Parse a single literal value
+   */
+  protected parseValue(depth: number): any {
+    if (depth > MAX_DEPTH) {
+      throw this.error(`Values nested deeper than ${MAX_DEPTH} levels`);
+    }
+
+    this.skipWhitespace();
+    const char = this.peek();
+
+    if (char === '"' || char === "'") {
+      return this.parseString(char);
+    }
+    if (char === '`') {
+      return this.parseTemplate();
+    }
+    if (char === '[') {
+      return this.parseArray(depth + 1);
+    }
+    if (char === '{') {
+      return this.parseObject(depth + 1);
+    }
+    if (/[0-9.+-]/.test(char)) {
+      return this.parseNumber();
+    }
+    if (this.isIdentifierStart(char)) {
+      return this.parseKeyword();
+    }
+
+    throw this.unexpected();
+  }
+
+  /**
+   * Parse a single- or double-quoted string
+   */
+  protected parseString(quote: string): string {
+    const start = this.pos;
+    this.pos++;
+    let result = '';
+
+    while (!this.isAtEnd()) {
+      const char = this.source[this.pos];
+      if (char === quote) {
+        this.pos++;
+        return result;
+      }
+      if (char === '\n') {
+        break;
+      }
+      if (char === '\\') {
+        result += this.parseEscape();
+      } else {
+        result += char;
+        this.pos++;
+      }
+    }
+
+    throw new LiteralParseError(`Unterminated string starting at position ${start}`, start);
+  }
+
+  /**
+   * Parse a template string, rejecting `${...}` interpolation
+   */
+  protected parseTemplate(): string {
+    const start = this.pos;
+    this.pos++;
+    let result = '';
+
+    while (!this.isAtEnd()) {
+      const char = this.source[this.pos];
+      if (char === '`') {
+        this.pos++;
+        return result;
+      }
+      if (char === '$' && this.source[this.pos + 1] === '{') {
+        throw this.error('Template string interpolation is not supported');
+      }
+      if (char === '\\') {
+        result += this.parseEscape();
+      } else {
+        result += char;
+        this.pos++;
+      }
+    }
+
+    throw new LiteralParseError(
+      `Unterminated template string starting at position ${start}`,
+      start
+    );
+  }
+
+  /**
+   * Parse a backslash escape sequence inside a string
+   */
+  protected parseEscape(): string {
+    this.pos++;
+    const char = this.source[this.pos];
+    this.pos++;
+
+    if (char === undefined) {
+      throw this.error('Unterminated escape sequence');
+    }
+    if (char in SIMPLE_ESCAPES) {
+      return SIMPLE_ESCAPES[char];
+    }
+    if (char === '\n') {
+      return '';
+    }
+    if (char === 'x') {
+      return String.fromCharCode(this.readHex(2));
+    }
+    if (char === 'u') {
+      if (this.peek() === '{') {
+        const end = this.source.indexOf('}', this.pos);
+        const hex = end === -1 ? '' : this.source.slice(this.pos + 1, end);
+        if (!/^[0-9a-fA-F]{1,6}$/.test(hex) || parseInt(hex, 16) > 0x10ffff) {
+          throw this.error('Invalid unicode escape sequence');
+        }
+        this.pos = end + 1;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      return String.fromCharCode(this.readHex(4));
+    }
+
+    return char;
+  }
+
+  /**
+   * Read a fixed number of hex digits
+   */
+  protected readHex(length: number): number {
+    const hex = this.source.slice(this.pos, this.pos + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+      throw this.error('Invalid hexadecimal escape sequence');
+    }
+    this.pos += length;
+    return parseInt(hex, 16);
+  }
+
+  /**
+   * Parse decimal, hex, octal or binary numbers with optional sign and `_` separators
+   */
+  protected parseNumber(): number {
+    const start = this.pos;
+    let sign = 1;
+
+    if (this.peek() === '+' || this.peek() === '-') {
+      sign = this.peek() === '-' ? -1 : 1;
+      this.pos++;
+    }
+
+    const radixMatch = /^0([xXoObB])/.exec(this.source.slice(this.pos, this.pos + 2));
+    const pattern = radixMatch
+      ? {
+          x: /^[0-9a-fA-F_]+/,
+          o: /^[0-7_]+/,
+          b: /^[01_]+/,
+        }[radixMatch[1].toLowerCase() as 'x' | 'o' | 'b']
+      : /^(?:[0-9_]+(?:\.[0-9_]*)?|\.[0-9_]+)(?:[eE][+-]?[0-9_]+)?/;
+
+    const bodyStart = this.pos + (radixMatch ? 2 : 0);
+    const match = pattern.exec(this.source.slice(bodyStart));
+    if (!match) {
+      this.pos = start;
+      throw this.unexpected();
+    }
+
+    const digits = match[0];
+    if (/(^|[^0-9a-fA-F])_|_($|[^0-9a-fA-F])|__/.test(digits)) {
+      throw new LiteralParseError(`Invalid numeric separator at position ${start}`, start);
+    }
+
+    this.pos = bodyStart + digits.length;
+    if (this.isIdentifierStart(this.peek()) || /[0-9]/.test(this.peek())) {
+      throw this.unexpected();
+    }
+
+    const text = (radixMatch ? radixMatch[0] : '') + digits.replace(/_/g, '');
+    const value = Number(text);
+    if (isNaN(value)) {
+      throw new LiteralParseError(`Invalid number at position ${start}`, start);
+    }
+
+    return sign * value;
+  }
+
+  /**
+   * Parse true, false, null and undefined
+   */
+  protected parseKeyword(): any {
+    const start = this.pos;
+    const word = this.readIdentifier();
+
+    switch (word) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+        return null;
+      case 'undefined':
+        return undefined;
+      default:
+        throw new LiteralParseError(
+          `Unexpected identifier '${word}' at position ${start}. Strings must be quoted`,
+          start
+        );
+    }
+  }
+
+  /**
+   * Parse an array literal, allowing a trailing comma
+   */
+  protected parseArray(depth: number): any[] {
+    this.pos++;
+    const values = this.parseList(']', depth);
+    this.expect(']');
+    return values;
+  }
+
+  /**
+   * Parse an object literal with quoted or unquoted keys, allowing a trailing comma
+   */
+  protected parseObject(depth: number): { [key: string]: any } {
+    this.pos++;
+    const result: { [key: string]: any } = {};
+    this.skipWhitespace();
+
+    while (this.peek() !== '}') {
+      const keyStart = this.pos;
+      const key = this.parseKey();
+      if (key === FORBIDDEN_KEY) {
+        throw new LiteralParseError(`Property name '${key}' is not allowed`, keyStart);
+      }
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new LiteralParseError(`Duplicate property '${key}'`, keyStart);
+      }
+
+      this.skipWhitespace();
+      this.expect(':');
+      result[key] = this.parseValue(depth);
+      this.skipWhitespace();
+
+      if (this.peek() !== ',') {
+        break;
+      }
+      this.pos++;
+      this.skipWhitespace();
+    }
+
+    this.expect('}');
+    return result;
+  }
+
+  /**
+   * Parse an object key: identifier, string or number
+   */
+  protected parseKey(): string {
+    const char = this.peek();
+    if (char === '"' || char === "'") {
+      return this.parseString(char);
+    }
+    if (this.isIdentifierStart(char)) {
+      return this.readIdentifier();
+    }
+    if (/[0-9]/.test(char)) {
+      return String(this.parseNumber());
+    }
+    throw this.unexpected();
+  }
+
+  /**
+   * Read an identifier name at the current position
+   */
+  protected readIdentifier(): string {
+    const match = /^[A-Za-z_$][\w$]*/.exec(this.source.slice(this.pos));
+    if (!match) {
+      throw this.unexpected();
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Check whether a character can start an identifier
+   */
+  protected isIdentifierStart(char: string): boolean {
+    return /^[A-Za-z_$]$/.test(char);
+  }
+
+  /**
+   * Advance past whitespace
+   */
+  protected skipWhitespace(): void {
+    while (/\s/.test(this.peek())) {
+      this.pos++;
+    }
+  }
+
+  /**
+   * Return the current character, or an empty string at the end of input
+   */
+  protected peek(): string {
+    return this.source[this.pos] || '';
+  }
+
+  /**
+   * Check whether the whole input has been consumed
+   */
+  protected isAtEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  /**
+   * Consume an expected character
+   */
+  protected expect(char: string): void {
+    this.skipWhitespace();
+    if (this.peek() !== char) {
+      throw this.isAtEnd()
+        ? this.error(`Expected '${char}' but reached end of input`)
+        : this.unexpected(`expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  /**
+   * Ensure the whole input was consumed
+   */
+  protected expectEnd(): void {
+    this.skipWhitespace();
+    if (!this.isAtEnd()) {
+      throw this.unexpected("expected ',' or end of arguments");
+    }
+  }
+
+  /**
+   * Build an error for the character at the current position
+   */
+  protected unexpected(hint?: string): LiteralParseError {
+    const char = this.peek();
+    if (char === '，') {
+      return this.error(
+        'Invalid comma character. Use English comma (,) instead of Chinese comma (，)'
+      );
+    }
+    if (!char) {
+      return this.error('Unexpected end of input');
+    }
+    return this.error(
+      `Unexpected character '${char}' at position ${this.pos}${hint ? ` (${hint})` : ''}`
+    );
+  }
+
+  /**
+   * Build an error at the current position
+   */
+  protected error(message: string): LiteralParseError {
+    return new LiteralParseError(message, this.pos);
+  }
+}
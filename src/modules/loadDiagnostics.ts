@@ -0,0 +1,137 @@
+/**
+ * Turns errors thrown while loading a script into diagnostics with a source
+ * location and a short excerpt of the offending code
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ModuleDiagnostic, SourceLocation } from '../types';
+import { TypeCheckError } from './typeChecker';
+import { ScriptRoots } from './scriptRoots';
+
+// Lines shown before and after the failing line in an excerpt
+const EXCERPT_CONTEXT_LINES = 2;
+
+// ts-node compile errors: "scripts/cat.ts(4,12): error TS1005: ..."
+const TS_COMPILE_ERROR = /^(.+?)\((\d+),(\d+)\): error TS\d+/m;
+
+// V8 syntax errors start the stack with "/path/file.js:4", the code line and a caret line
+const SYNTAX_ERROR_HEADER = /^(.+?):(\d+)\n(.*)\n(\s*)\^/;
+
+// Stack frames such as "at Object.<anonymous> (/path/file.ts:4:12)"
+const STACK_FRAME = /\(?([^\s()]+):(\d+):(\d+)\)?$/gm;
+
+export class LoadDiagnostics {
+  /**
+   * Describe a load failure. The location is the first place inside a script
+   * root the error points at, which may be a file the module imports.
+   */
+  static fromError(
+    error: unknown,
+    diagnostic: Pick<ModuleDiagnostic, 'module' | 'file' | 'status'>,
+    roots: ScriptRoots
+  ): ModuleDiagnostic {
+    const message =
+      error instanceof Error ? error.message.replace(/^⨯\s*/, '').trim() : String(error);
+    const location = this.findLocation(error, roots);
+
+    return {
+      ...diagnostic,
+      error: message,
+      ...(location
+        ? {
+            location: { ...location, file: roots.mountPath(location.file)! },
+            excerpt: this.excerpt(location),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Find the file, line and column an error refers to
+   */
+  private static findLocation(error: unknown, roots: ScriptRoots): SourceLocation | null {
+    if (!(error instanceof Error)) {
+      return null;
+    }
+
+    const isScript = (file: string) => roots.rootOf(file) !== null;
+
+    if (error instanceof TypeCheckError && error.diagnostics.length > 0) {
+      const [first] = error.diagnostics;
+      const file = roots.resolve(first.file);
+      return file ? { file, line: first.line, column: first.column } : null;
+    }
+
+    const compileError = TS_COMPILE_ERROR.exec(error.message);
+    if (compileError && isScript(this.toFilePath(compileError[1]))) {
+      return {
+        file: this.toFilePath(compileError[1]),
+        line: Number(compileError[2]),
+        column: Number(compileError[3]),
+      };
+    }
+
+    const stack = error.stack || '';
+    const syntaxError = SYNTAX_ERROR_HEADER.exec(stack);
+    if (syntaxError && isScript(this.toFilePath(syntaxError[1]))) {
+      return {
+        file: this.toFilePath(syntaxError[1]),
+        line: Number(syntaxError[2]),
+        column: syntaxError[4].length + 1,
+      };
+    }
+
+    for (const frame of stack.matchAll(STACK_FRAME)) {
+      const file = this.toFilePath(frame[1]);
+      if ((path.isAbsolute(frame[1]) || frame[1].startsWith('file:')) && isScript(file)) {
+        return { file, line: Number(frame[2]), column: Number(frame[3]) };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Turn a path or file URL from an error into an absolute path. ES module
+   * scripts appear as file URLs with a reload query.
+   */
+  private static toFilePath(location: string): string {
+    return location.startsWith('file:') ? fileURLToPath(location) : path.resolve(location);
+  }
+
+  /**
+   * Render the lines around a location with line numbers and a caret under the column
+   */
+  private static excerpt(location: SourceLocation): string | undefined {
+    let lines: string[];
+    try {
+      lines = fs
+        .readFileSync(location.file, 'utf8')
+        .replace(/\r?\n$/, '')
+        .split(/\r?\n/);
+    } catch {
+      return undefined;
+    }
+
+    if (location.line < 1 || location.line > lines.length) {
+      return undefined;
+    }
+
+    const first = Math.max(1, location.line - EXCERPT_CONTEXT_LINES);
+    const last = Math.min(lines.length, location.line + EXCERPT_CONTEXT_LINES);
+    const width = String(last).length;
+
+    const excerpt: string[] = [];
+    for (let line = first; line <= last; line++) {
+      const marker = line === location.line ? '>' : ' ';
+      excerpt.push(`${marker} ${String(line).padStart(width)} | ${lines[line - 1]}`);
+      if (line === location.line) {
+        excerpt.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(0, location.column - 1))}^`);
+      }
+    }
+
+    return excerpt.join('\n');
+  }
+}
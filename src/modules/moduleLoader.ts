@@ -0,0 +1,208 @@
+/**
+ * Script loading helpers shared by the main thread and execution workers
+ */
+
+import fs from 'fs';
+import { register } from 'module';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { LifecycleHook } from '../types';
+import { logger } from '../utils/logger';
+import { TypeChecker } from './typeChecker';
+
+// Optional exports called by the execution workers instead of by callers
+export const LIFECYCLE_HOOKS: LifecycleHook[] = ['init', 'dispose', 'health'];
+
+// Symbol ts-node sets on the current thread's process object once registered
+const TS_NODE_INSTANCE = Symbol.for('ts-node.register.instance');
+
+// Scripts loaded with import() instead of require()
+const ES_MODULE_EXTENSIONS = ['.mjs', '.mts'];
+
+// Query parameter that gives each reload of an ES module script a new URL
+const RELOAD_PARAMETER = 'reload';
+
+// Loader hook that passes an ES module's reload parameter on to the ES modules it
+// imports, so helpers are evaluated again along with the scripts using them
+const RELOAD_HOOKS = `
+export async function resolve(specifier, context, nextResolve) {
+  const resolved = await nextResolve(specifier, context);
+  const reload = context.parentURL && new URL(context.parentURL).searchParams.get('${RELOAD_PARAMETER}');
+  const url = new URL(resolved.url);
+  if (reload && url.protocol === 'file:' && !url.search && /\\.m[jt]s$/.test(url.pathname) &&
+      !url.pathname.includes('/node_modules/')) {
+    url.searchParams.set('${RELOAD_PARAMETER}', reload);
+    return { ...resolved, url: url.href };
+  }
+  return resolved;
+}
+`;
+
+// TypeScript compiles import() to require() in CommonJS output, so the real
+// dynamic import is created at runtime
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<any>;
+
+// Version of each ES module script on this thread; invalidation drops the entry
+const esModuleVersions = new Map<string, number>();
+let nextEsModuleVersion = 1;
+let esModuleHooksRegistered = false;
+
+/**
+ * Register ts-node for the current thread if it is not registered yet
+ */
+export function registerTypeScript(): void {
+  if ((process as any)[TS_NODE_INSTANCE]) {
+    return;
+  }
+
+  require('ts-node').register({
+    transpileOnly: true,
+    compilerOptions: {
+      module: 'commonjs',
+      target: 'es2020',
+      esModuleInterop: true,
+      allowSyntheticDefaultImports: true,
+    },
+  });
+}
+
+/**
+ * Register the loader hooks ES module scripts need on the current thread:
+ * ts-node's ESM loader for .mts files and the reload parameter hook. Node.js
+ * versions without module.register() cannot load ES module scripts at all.
+ */
+function registerEsModuleHooks(): void {
+  if (esModuleHooksRegistered) {
+    return;
+  }
+
+  if (typeof register !== 'function') {
+    throw new Error(
+      `ES module scripts (.mjs, .mts) require Node.js 18.19, 20.6 or later, but this is ${process.version}`
+    );
+  }
+
+  register('ts-node/esm', pathToFileURL(path.join(process.cwd(), path.sep)));
+  register('data:text/javascript,' + encodeURIComponent(RELOAD_HOOKS));
+  esModuleHooksRegistered = true;
+}
+
+/**
+ * Check whether a script is loaded as an ES module
+ */
+export function isEsModuleFile(modulePath: string): boolean {
+  return ES_MODULE_EXTENSIONS.includes(path.extname(modulePath));
+}
+
+/**
+ * Clear require cache for dynamic module reloading. ES modules cannot be removed
+ * from the module cache, so the next import of one uses a new URL instead.
+ */
+export function clearRequireCache(modulePath: string): void {
+  if (isEsModuleFile(modulePath)) {
+    esModuleVersions.delete(modulePath);
+    logger.debug(`Cleared cache for module: ${modulePath}`);
+    return;
+  }
+
+  // Deleted files can no longer be resolved but may still be cached by their full path
+  if (require.cache[modulePath]) {
+    delete require.cache[modulePath];
+    logger.debug(`Cleared cache for module: ${modulePath}`);
+    return;
+  }
+
+  try {
+    const resolvedPath = require.resolve(modulePath);
+    delete require.cache[resolvedPath];
+    logger.debug(`Cleared cache for module: ${modulePath}`);
+  } catch (error) {
+    logger.warn(`Failed to clear cache for module: ${modulePath}`, error);
+  }
+}
+
+/**
+ * Load a script file and return the functions callers can use. ES module
+ * scripts (.mjs, .mts) are imported, everything else is required.
+ */
+export async function loadModuleExports(modulePath: string): Promise<any> {
+  if (isEsModuleFile(modulePath)) {
+    registerEsModuleHooks();
+    if (!esModuleVersions.has(modulePath)) {
+      esModuleVersions.set(modulePath, nextEsModuleVersion++);
+    }
+
+    const url = pathToFileURL(modulePath);
+    url.searchParams.set(RELOAD_PARAMETER, String(esModuleVersions.get(modulePath)));
+    try {
+      return flattenDefaultExport(await importModule(url.href));
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof SyntaxError)) {
+        throw error;
+      }
+      throw (
+        esModuleCompileError(modulePath) ||
+        (error instanceof Error ? error : new Error(`Failed to import ${modulePath}`))
+      );
+    }
+  }
+
+  if (['.ts', '.cts'].includes(path.extname(modulePath))) {
+    registerTypeScript();
+  }
+
+  return flattenDefaultExport(require(modulePath));
+}
+
+/**
+ * Syntax errors in ES modules carry no source location, and ts-node's ESM
+ * loader runs off the main thread so its compile errors arrive as empty
+ * objects. The syntax check is repeated here to report them in the same form
+ * as CommonJS compile errors; null when the file parses.
+ */
+function esModuleCompileError(modulePath: string): Error | null {
+  const diagnostics = TypeChecker.checkSyntax(fs.readFileSync(modulePath, 'utf8'), modulePath);
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return new Error(
+    'Unable to compile ES module:\n' +
+      diagnostics
+        .map((d) => `${d.file}(${d.line},${d.column}): error TS${d.code}: ${d.message}`)
+        .join('\n')
+  );
+}
+
+/**
+ * Expose a module's default export predictably: a default-exported function is
+ * callable as `default`, and the members of a default-exported object are
+ * merged into the named exports (named exports win on conflicts). A CommonJS
+ * `module.exports = function` counts as a default export.
+ */
+function flattenDefaultExport(moduleExports: any): any {
+  if (typeof moduleExports === 'function') {
+    return { default: moduleExports };
+  }
+  if (!moduleExports || typeof moduleExports !== 'object') {
+    return moduleExports;
+  }
+
+  const isEsModule = moduleExports.__esModule || moduleExports[Symbol.toStringTag] === 'Module';
+  if (!isEsModule) {
+    return moduleExports;
+  }
+
+  const { default: defaultExport, ...namedExports } = moduleExports;
+  delete namedExports.__esModule;
+
+  if (typeof defaultExport === 'function') {
+    return { ...namedExports, default: defaultExport };
+  }
+  if (defaultExport && typeof defaultExport === 'object') {
+    return { ...defaultExport, ...namedExports };
+  }
+  return namedExports;
+}
@@ -2,334 +2,557 @@
  * Dynamic module loading and management
  */
 
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { ModulesMap, ModuleInfo, FunctionInfo } from '../types';
+import {
+  ModulesMap,
+  ModuleInfo,
+  CallStep,
+  ExecuteResponse,
+  ExecutionLimits,
+  ModuleExecutionLimits,
+  ModuleDiagnostic,
+  ModuleHealth,
+  TypeDiagnostic,
+  ModuleSourceResponse,
+  ModuleWriteResponse,
+  FunctionInfo,
+  FunctionPolicy,
+  CallerContext,
+} from '../types';
+import { AuthManager } from '../utils/auth';
 import { CONFIG } from '../utils/config';
 import { logger } from '../utils/logger';
+import { RateLimiter } from '../utils/rateLimiter';
 import { InputSanitizer } from '../utils/sanitizer';
+import { clearRequireCache, LIFECYCLE_HOOKS, loadModuleExports } from './moduleLoader';
+import { FunctionExtractor } from './functionExtractor';
+import { DependencyGraph } from './dependencyGraph';
+import { LoadDiagnostics } from './loadDiagnostics';
+import { TypeCheckError, TypeChecker } from './typeChecker';
+import { ScriptHistory } from './scriptHistory';
+import { ReadOnlyRootError, scriptRoots } from './scriptRoots';
+import { TypeValidator } from './typeValidator';
+import { LiteralParseError, NamedArgument } from './literalParser';
+import { CallExpressionParser, CallNode } from './callParser';
+import {
+  ExecutionCancelledError,
+  ExecutionLimitError,
+  ExecutionOptions,
+  ExecutionResult,
+  InstanceLostError,
+  workerPool,
+} from './workerPool';
+import { InstanceError, instanceRegistry } from './instanceRegistry';
+import { ValueSerializer } from './valueSerializer';
+
+// Script extensions in order of preference when two files share a module name
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs', '.cjs'];
+
+// Test, spec and declaration files sit next to scripts but are never loaded
+const EXCLUDED_MODULE_FILE = /\.(test|spec|d)\.[cm]?[jt]s$/;
+
+// Each dotted part of a module name must be usable in a call string
+const MODULE_NAME_SEGMENT = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Paths below /api/modules/ taken by other routes; modules of these names
+// could not be reached there, so they are not loaded or written
+const RESERVED_MODULE_NAMES = ['health', 'diagnostics'];
+
+// Editors emit several events per save; changes are applied once they settle
+const RELOAD_DEBOUNCE_MS = 100;
+
+// What a call runs, with the module providing its code (for instances, the
+// module of their class, if it is still loaded)
+interface CallTarget {
+  kind: 'function' | 'construct' | 'method';
+  functionInfo: FunctionInfo;
+  moduleInfo?: ModuleInfo;
+}
+
+/**
+ * Options of a call expression: the worker pool's options, who is calling, and
+ * where deprecation notices of the called functions are collected
+ */
+export interface CallOptions extends ExecutionOptions {
+  caller?: CallerContext;
+  warnings?: string[];
+}
 
 export class ModuleManager {
   private modulesCache: ModulesMap = {};
   private cacheTimestamp: number = 0;
-  private fileWatcher: fs.FSWatcher | null = null;
+  private fileWatchers: fs.FSWatcher[] = [];
+  private pendingChanges = new Set<string>();
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private reloadQueue: Promise<void> = Promise.resolve();
+  // Modification times of loaded scripts, to catch changes the watchers missed
+  private fileTimes = new Map<string, number>();
+  private dependencyGraph = new DependencyGraph(scriptRoots);
+  private diagnostics = new Map<string, ModuleDiagnostic>();
+  // Limiters of functions tagged @rateLimit, by call name and limit
+  private rateLimiters = new Map<string, RateLimiter>();
 
   constructor() {
     this.initFileWatcher();
   }
 
   /**
-   * Initialize file watcher for hot reloading
+   * Initialize a file watcher on every script root for hot reloading
    */
   private initFileWatcher(): void {
-    try {
-      if (fs.existsSync(CONFIG.SCRIPTS_DIR)) {
-        this.fileWatcher = fs.watch(
-          CONFIG.SCRIPTS_DIR,
-          { recursive: true },
-          (eventType, filename) => {
-            if (filename && (filename.endsWith('.ts') || filename.endsWith('.js'))) {
-              logger.info(`File ${eventType}: ${filename}`);
-              this.clearCache();
-            }
-          }
-        );
-        logger.info(`File watcher initialized for ${CONFIG.SCRIPTS_DIR}`);
+    scriptRoots.roots.forEach((root) => {
+      try {
+        if (fs.existsSync(root.dir)) {
+          this.fileWatchers.push(
+            fs.watch(root.dir, { recursive: true }, (eventType, filename) => {
+              // Hidden files include the temporary files of API writes
+              if (filename && !filename.split(path.sep).some((part) => part.startsWith('.'))) {
+                logger.debug(`File ${eventType}: ${path.join(root.name, filename)}`);
+                this.scheduleReload(path.join(root.dir, filename));
+              }
+            })
+          );
+          logger.info(`File watcher initialized for ${root.dir}`);
+        }
+      } catch (error) {
+        logger.warn(`Failed to initialize file watcher for ${root.dir}:`, error);
       }
-    } catch (error) {
-      logger.warn('Failed to initialize file watcher:', error);
-    }
+    });
   }
 
   /**
-   * Clear require cache for dynamic module reloading
+   * Close every file watcher
    */
-  private clearRequireCache(modulePath: string): void {
-    try {
-      const resolvedPath = require.resolve(modulePath);
-      delete require.cache[resolvedPath];
-      logger.debug(`Cleared cache for module: ${modulePath}`);
-    } catch (error) {
-      logger.warn(`Failed to clear cache for module: ${modulePath}`, error);
+  private closeFileWatchers(): void {
+    this.fileWatchers.forEach((watcher) => watcher.close());
+    this.fileWatchers = [];
+  }
+
+  /**
+   * Recreate the file watchers. Node's recursive watcher on Linux stops reporting
+   * a file once it is replaced by a rename, as atomic saves, `sed -i` and
+   * `git checkout` do, and reports the replacement as a plain change.
+   */
+  private rearmFileWatchers(): void {
+    if (this.fileWatchers.length > 0) {
+      this.closeFileWatchers();
+      this.initFileWatcher();
     }
   }
 
   /**
-   * Extract parameter types from TypeScript function signature
+   * Queue a changed path in a script root and apply all queued changes once no
+   * new events arrive for RELOAD_DEBOUNCE_MS. Any change may have replaced a
+   * file, so the watchers are recreated first.
    */
-  private extractParameterTypes(functionSignature: string): { name: string; type: string }[] {
-    const params: { name: string; type: string }[] = [];
+  private scheduleReload(changedPath: string): void {
+    this.pendingChanges.add(changedPath);
 
-    // Match function parameters with types: (param1: type1, param2: type2)
-    const paramMatch = functionSignature.match(/\(([^)]*)\)/);
-    if (!paramMatch || !paramMatch[1].trim()) {
-      return params;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
     }
 
-    const paramString = paramMatch[1];
-    // Split by comma, but be careful with nested types like Array<string>
-    const paramParts = this.splitParameters(paramString);
-
-    paramParts.forEach((param) => {
-      const trimmed = param.trim();
-      if (trimmed) {
-        // Match parameter with type annotation: paramName: type
-        const typeMatch = trimmed.match(/^([^:]+):\s*(.+)$/);
-        if (typeMatch) {
-          const name = typeMatch[1].trim();
-          const type = typeMatch[2].trim();
-          params.push({ name, type });
-        } else {
-          // Parameter without type annotation
-          params.push({ name: trimmed, type: 'any' });
-        }
-      }
-    });
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.rearmFileWatchers();
+      this.queueReload().catch((error) => {
+        logger.error('Failed to apply script changes:', error);
+      });
+    }, RELOAD_DEBOUNCE_MS);
+  }
 
-    return params;
+  /**
+   * Apply the queued changes after any reload that is still running, so that
+   * two reloads never update the cache at the same time
+   */
+  private queueReload(): Promise<void> {
+    const reload = this.reloadQueue.then(() => this.applyPendingChanges());
+    this.reloadQueue = reload.catch(() => undefined);
+    return reload;
   }
 
   /**
-   * Split parameter string by comma, handling nested types
+   * Reload, add or remove only the modules affected by the queued changes.
+   * Renames arrive as a change of the old path (now missing) and the new one.
    */
-  private splitParameters(paramString: string): string[] {
-    const params: string[] = [];
-    let current = '';
-    let depth = 0;
+  private async applyPendingChanges(): Promise<void> {
+    const changedPaths = Array.from(this.pendingChanges);
+    this.pendingChanges.clear();
+
+    // Nothing is cached yet, so the next request loads everything from disk anyway
+    if (this.cacheTimestamp === 0) {
+      workerPool.invalidate(changedPaths);
+      return;
+    }
 
-    for (let i = 0; i < paramString.length; i++) {
-      const char = paramString[i];
+    // Changed files and every script that imports them, directly or indirectly
+    const staleFiles = this.dependencyGraph.dependentsOf(changedPaths);
+    changedPaths
+      .filter((changedPath) => MODULE_EXTENSIONS.includes(path.extname(changedPath)))
+      .forEach((changedPath) => staleFiles.add(changedPath));
+
+    const affected = new Set<string>(
+      Object.keys(this.modulesCache).filter((name) => staleFiles.has(this.modulesCache[name].path))
+    );
+    changedPaths.forEach((changedPath) => {
+      const filename = scriptRoots.mountPath(changedPath);
+      if (filename === null) {
+        return;
+      }
 
-      if (char === '<' || char === '(' || char === '[') {
-        depth++;
-      } else if (char === '>' || char === ')' || char === ']') {
-        depth--;
-      } else if (char === ',' && depth === 0) {
-        params.push(current.trim());
-        current = '';
-        continue;
+      const namespace = this.namespaceFor(filename);
+      if (namespace && this.isDirectory(changedPath)) {
+        this.discoverModuleFiles(changedPath, namespace).forEach(({ name }) => affected.add(name));
+        return;
       }
 
-      current += char;
-    }
+      const name = this.moduleNameFor(filename);
+      if (name) {
+        affected.add(name);
+      }
+    });
 
-    if (current.trim()) {
-      params.push(current.trim());
+    // Drop every stale file first so that reloaded modules share the new code
+    // of the scripts they import
+    staleFiles.forEach((file) => {
+      clearRequireCache(file);
+      if (!fs.existsSync(file)) {
+        this.dependencyGraph.remove(file);
+      }
+    });
+
+    const reloaded = new Map<string, ModuleInfo | null>();
+    for (const name of this.sortByDependencies(Array.from(affected))) {
+      reloaded.set(name, await this.reloadModule(name));
     }
 
-    return params;
+    this.applyReloadToWorkers(staleFiles, reloaded);
+    this.recordFileTimes();
   }
 
   /**
-   * Extract function information from module exports
+   * Bring the workers and instances up to date after the main thread reloaded
+   * stale files. Modules map to null when they were removed.
    */
-  private extractFunctionInfo(
-    moduleExports: any,
-    fileContent: string,
-    moduleName: string
-  ): FunctionInfo[] {
-    const functions: FunctionInfo[] = [];
-    const lines = fileContent.split('\n');
+  private applyReloadToWorkers(
+    staleFiles: Set<string>,
+    reloaded: Map<string, ModuleInfo | null>
+  ): void {
+    // Workers keep running the previous code of modules that failed to reload
+    const keptPaths = new Set<string>();
+    reloaded.forEach((moduleInfo, name) => {
+      if (moduleInfo?.reloadError) {
+        keptPaths.add(moduleInfo.path);
+        reloaded.delete(name);
+      }
+    });
 
-    Object.keys(moduleExports).forEach((funcName: string) => {
-      if (typeof moduleExports[funcName] === 'function') {
-        let description = 'No description available';
-        let example = `${moduleName}.${funcName}()`;
-        let parameters: { name: string; type: string }[] = [];
+    workerPool.invalidate(Array.from(staleFiles).filter((file) => !keptPaths.has(file)));
 
-        // Find function declaration in source code
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
+    // Workers that had the previous code loaded run init() of the new code right away
+    reloaded.forEach((moduleInfo) => {
+      if (moduleInfo?.hooks?.includes('init')) {
+        workerPool.preload(moduleInfo.path);
+      }
+    });
 
-          // Look for function declarations
-          const functionPatterns = [
-            new RegExp(`export\\s+const\\s+${funcName}\\s*=`),
-            new RegExp(`export\\s+function\\s+${funcName}\\s*\\(`),
-            new RegExp(`function\\s+${funcName}\\s*\\(`),
-            new RegExp(`const\\s+${funcName}\\s*=`),
-          ];
+    // Instances of reloaded classes follow INSTANCE_RELOAD_POLICY
+    reloaded.forEach((moduleInfo, name) => instanceRegistry.applyReloadPolicy(name, moduleInfo));
+  }
 
-          const isFunction = functionPatterns.some((pattern) => pattern.test(line));
+  /**
+   * Remember the modification time of every loaded script and the scripts they import
+   */
+  private recordFileTimes(): void {
+    const files = new Set([
+      ...this.dependencyGraph.knownFiles(),
+      ...Object.values(this.modulesCache).map((moduleInfo) => moduleInfo.path),
+    ]);
+
+    this.fileTimes.clear();
+    files.forEach((file) => {
+      try {
+        this.fileTimes.set(file, fs.statSync(file).mtimeMs);
+      } catch {
+        // Removed since it was loaded; the next reload forgets it
+      }
+    });
+  }
 
-          if (isFunction) {
-            // Extract function signature for parameter types
-            let functionSignature = line;
+  /**
+   * Loaded scripts that were modified or removed since their times were recorded
+   */
+  private findMissedChanges(): string[] {
+    return Array.from(this.fileTimes.entries())
+      .filter(([file, mtimeMs]) => {
+        try {
+          return fs.statSync(file).mtimeMs !== mtimeMs;
+        } catch {
+          return true;
+        }
+      })
+      .map(([file]) => file);
+  }
 
-            // If function spans multiple lines, collect them
-            let j = i;
-            while (j < lines.length && !functionSignature.includes(')')) {
-              j++;
-              if (j < lines.length) {
-                functionSignature += ' ' + lines[j].trim();
-              }
-            }
+  /**
+   * Order module names so that modules imported by other modules load first
+   */
+  private sortByDependencies(moduleNames: string[]): string[] {
+    const names = new Map<string, string>();
+    moduleNames.forEach((name) => {
+      const filePath = this.modulesCache[name]?.path || this.resolveModuleFile(name) || name;
+      names.set(filePath, name);
+    });
 
-            // Extract parameter types from TypeScript signature
-            parameters = this.extractParameterTypes(functionSignature);
-
-            // Look backwards for JSDoc comment
-            let commentLines: string[] = [];
-            for (let k = i - 1; k >= 0; k--) {
-              const prevLine = lines[k].trim();
-              if (prevLine === '*/') {
-                // Found end of JSDoc, collect comment lines
-                for (let l = k - 1; l >= 0; l--) {
-                  const commentLine = lines[l].trim();
-                  if (commentLine === '/**') {
-                    break;
-                  }
-                  if (commentLine.startsWith('*')) {
-                    commentLines.unshift(commentLine.substring(1).trim());
-                  }
-                }
-                break;
-              }
-            }
+    return this.dependencyGraph
+      .sortByDependencies(Array.from(names.keys()))
+      .map((filePath) => names.get(filePath)!);
+  }
 
-            if (commentLines.length > 0) {
-              // First non-empty line is description
-              description =
-                commentLines.find((line) => line && !line.startsWith('@')) || description;
-
-              // Look for @example
-              const exampleIndex = commentLines.findIndex((line) => line.startsWith('@example'));
-              if (exampleIndex >= 0) {
-                const exampleLine = commentLines[exampleIndex];
-                const exampleText = exampleLine.replace('@example', '').trim();
-                if (exampleText) {
-                  // If example doesn't include module name, add it
-                  if (!exampleText.includes(`${moduleName}.`)) {
-                    example = `${moduleName}.${exampleText}`;
-                  } else {
-                    example = exampleText;
-                  }
-                }
-              }
-            }
+  /**
+   * Reload one module from disk and update the cache. The module is removed when
+   * its file is gone; a failed reload keeps the previous version in service.
+   */
+  private async reloadModule(moduleName: string): Promise<ModuleInfo | null> {
+    const previous = this.modulesCache[moduleName];
+    const filePath = this.resolveModuleFile(moduleName);
+    if (filePath) {
+      this.recordVersion(moduleName, filePath);
+    }
+    const moduleInfo = filePath
+      ? await this.loadModuleSafely(moduleName, filePath, previous)
+      : null;
+
+    const modules = { ...this.modulesCache };
+    if (moduleInfo) {
+      modules[moduleName] = moduleInfo;
+      if (!moduleInfo.reloadError) {
+        logger.info(`${previous ? 'Reloaded' : 'Added'} module: ${moduleName}`);
+      }
+    } else {
+      delete modules[moduleName];
+      if (!filePath) {
+        this.diagnostics.delete(moduleName);
+      }
+      if (previous) {
+        logger.info(`Removed module: ${moduleName}`);
+      }
+    }
 
-            // Generate default example if none provided
-            if (example === `${moduleName}.${funcName}()` && parameters.length > 0) {
-              const exampleParams = parameters
-                .map((param, index) => {
-                  switch (param.type.toLowerCase()) {
-                    case 'string':
-                      return `"example"`;
-                    case 'number':
-                      return `${index + 1}`;
-                    case 'boolean':
-                      return 'true';
-                    case 'array':
-                    case 'array<string>':
-                    case 'string[]':
-                      return '["item1", "item2"]';
-                    case 'array<number>':
-                    case 'number[]':
-                      return '[1, 2, 3]';
-                    default:
-                      return `param${index + 1}`;
-                  }
-                })
-                .join(', ');
-              example = `${moduleName}.${funcName}(${exampleParams})`;
-            }
+    this.modulesCache = modules;
+    return moduleInfo;
+  }
 
-            break;
-          }
-        }
+  /**
+   * Snapshot a module's file in the version history without delaying loading
+   */
+  private recordVersion(moduleName: string, filePath: string): void {
+    ScriptHistory.record(moduleName, filePath).catch((error) => {
+      logger.warn(
+        `Failed to save a version of module ${moduleName}:`,
+        error instanceof Error ? error.message : error
+      );
+    });
+  }
 
-        functions.push({
-          name: funcName,
-          parameters,
-          description,
-          example,
-        });
+  /**
+   * Find the file that provides a module. Roots mounted under a longer namespace
+   * shadow the others, then earlier roots shadow later ones; within a root,
+   * earlier MODULE_EXTENSIONS are preferred.
+   */
+  private resolveModuleFile(moduleName: string): string | null {
+    for (const { filePath: basePath } of scriptRoots.candidates(
+      path.join(...moduleName.split('.'))
+    )) {
+      const extension = MODULE_EXTENSIONS.find((ext) => fs.existsSync(basePath + ext));
+      if (extension) {
+        return basePath + extension;
       }
-    });
+    }
+    return null;
+  }
 
-    return functions;
+  /**
+   * Namespace parts for a directory's mount path, or null
+   * when the directory (or one of its parents) is skipped during discovery
+   */
+  private namespaceFor(relativeDir: string): string[] | null {
+    const parts = relativeDir.split(path.sep).filter((part) => part !== '' && part !== '.');
+    const skipped = parts.some(
+      (part) => /^[._]/.test(part) || part === 'node_modules' || !MODULE_NAME_SEGMENT.test(part)
+    );
+    return skipped ? null : parts;
   }
 
   /**
-   * Load a single module from file path
+   * Module name for a script's mount path, or null
+   * when discovery would not load the file
    */
-  private async loadModule(filePath: string): Promise<ModuleInfo | null> {
-    try {
-      const moduleName = path.basename(filePath, path.extname(filePath));
-      const modulePath = path.resolve(filePath);
-      const isTypeScript = path.extname(filePath) === '.ts';
+  private moduleNameFor(relativePath: string): string | null {
+    const namespace = this.namespaceFor(path.dirname(relativePath));
+    const fileName = path.basename(relativePath);
+    const extension = path.extname(fileName);
+    const baseName = path.basename(fileName, extension);
 
-      // Clear cache for hot reloading
-      this.clearRequireCache(modulePath);
+    if (
+      !namespace ||
+      /^[._]/.test(fileName) ||
+      !MODULE_EXTENSIONS.includes(extension) ||
+      EXCLUDED_MODULE_FILE.test(fileName) ||
+      !MODULE_NAME_SEGMENT.test(baseName)
+    ) {
+      return null;
+    }
 
-      // Read file content for documentation extraction
-      const fileContent = fs.readFileSync(modulePath, 'utf8');
+    const name = [...namespace, baseName].join('.');
+    return RESERVED_MODULE_NAMES.includes(name) ? null : name;
+  }
 
-      let moduleExports: any;
+  /**
+   * Check whether a path exists and is a directory
+   */
+  private isDirectory(targetPath: string): boolean {
+    try {
+      return fs.statSync(targetPath).isDirectory();
+    } catch {
+      return false;
+    }
+  }
 
-      if (isTypeScript) {
-        // For TypeScript files, use ts-node to compile and load
-        try {
-          // Register ts-node if not already registered
-          if (!process.env.TS_NODE_REGISTERED) {
-            require('ts-node').register({
-              transpileOnly: true,
-              compilerOptions: {
-                module: 'commonjs',
-                target: 'es2020',
-                esModuleInterop: true,
-                allowSyntheticDefaultImports: true,
-              },
-            });
-            process.env.TS_NODE_REGISTERED = 'true';
-          }
+  /**
+   * Find loadable script files below a directory. Subdirectories become dotted
+   * namespaces, so `animals/cat.ts` is loaded as module `animals.cat`. Helpers
+   * (`_name`), hidden entries, tests and declaration files are skipped.
+   */
+  private discoverModuleFiles(
+    directory: string,
+    namespace: string[] = []
+  ): { name: string; filePath: string }[] {
+    const found: { name: string; filePath: string }[] = [];
+    const entries = fs
+      .readdirSync(directory, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (/^[._]/.test(entry.name) || entry.name === 'node_modules') {
+        continue;
+      }
 
-          moduleExports = require(modulePath);
+      const entryPath = path.join(directory, entry.name);
 
-          // Handle ES6 modules with default export
-          if (moduleExports && typeof moduleExports === 'object' && moduleExports.__esModule) {
-            // If it's an ES6 module, use the exports directly
-            const namedExports = { ...moduleExports };
-            delete namedExports.default;
-            delete namedExports.__esModule;
-            moduleExports = namedExports;
-          }
-        } catch (tsError) {
-          const error = tsError as Error;
-          logger.error(`Failed to load TypeScript module: ${filePath}`, {
-            message: error.message || 'Unknown error',
-            stack: error.stack || 'No stack trace',
-            name: error.name || 'Error',
-          });
-          return null;
-        }
-      } else {
-        // For JavaScript files, load directly
-        moduleExports = require(modulePath);
-
-        // Handle ES6 modules with default export
-        if (moduleExports && typeof moduleExports === 'object' && moduleExports.__esModule) {
-          const namedExports = { ...moduleExports };
-          delete namedExports.default;
-          delete namedExports.__esModule;
-          moduleExports = namedExports;
+      if (entry.isDirectory()) {
+        if (!MODULE_NAME_SEGMENT.test(entry.name)) {
+          logger.warn(`Skipping directory with invalid namespace name: ${entryPath}`);
+          continue;
         }
+        found.push(...this.discoverModuleFiles(entryPath, [...namespace, entry.name]));
+        continue;
       }
 
-      // Extract function information
-      const functions = this.extractFunctionInfo(moduleExports, fileContent, moduleName);
+      const extension = path.extname(entry.name);
+      if (!MODULE_EXTENSIONS.includes(extension) || EXCLUDED_MODULE_FILE.test(entry.name)) {
+        continue;
+      }
 
-      if (functions.length === 0) {
-        logger.warn(`No functions found in module: ${moduleName}`);
-        return null;
+      const baseName = path.basename(entry.name, extension);
+      if (!MODULE_NAME_SEGMENT.test(baseName)) {
+        logger.warn(`Skipping script with invalid module name: ${entryPath}`);
+        continue;
       }
 
-      logger.debug(`Loaded module: ${moduleName} with ${functions.length} functions`);
+      const name = [...namespace, baseName].join('.');
+      if (RESERVED_MODULE_NAMES.includes(name)) {
+        logger.warn(`Skipping script with reserved module name '${name}': ${entryPath}`);
+        continue;
+      }
 
-      return {
-        functions,
-        module: moduleExports,
-        path: modulePath,
-      };
+      found.push({ name, filePath: entryPath });
+    }
+
+    return found;
+  }
+
+  /**
+   * Load a single module from file path. Returns null when the file exports no
+   * functions; load errors are thrown to the caller. Callers clear the require
+   * cache of stale files first, so scripts shared by several modules load once.
+   */
+  private async loadModule(moduleName: string, filePath: string): Promise<ModuleInfo | null> {
+    const modulePath = path.resolve(filePath);
+
+    // Read file content for documentation extraction
+    const fileContent = fs.readFileSync(modulePath, 'utf8');
+
+    const moduleExports = await loadModuleExports(modulePath);
+
+    // Extract function information; a class adds `new` for creating instances
+    const functions = FunctionExtractor.extract(moduleExports, fileContent, moduleName, modulePath);
+    const classInfo = FunctionExtractor.extractClass(
+      moduleExports,
+      fileContent,
+      moduleName,
+      modulePath
+    );
+    if (classInfo) {
+      functions.push(FunctionExtractor.describeConstructor(classInfo, moduleName));
+    }
+
+    if (functions.length === 0) {
+      logger.warn(`No functions found in module: ${moduleName}`);
+      return null;
+    }
+
+    const importCycles = this.dependencyGraph
+      .record(modulePath)
+      .map((cycle) => this.dependencyGraph.describeCycle(cycle));
+    importCycles.forEach((cycle) => logger.warn(`Import cycle in module ${moduleName}: ${cycle}`));
+
+    logger.debug(`Loaded module: ${moduleName} with ${functions.length} functions`);
+
+    const hooks = LIFECYCLE_HOOKS.filter((hook) => typeof moduleExports[hook] === 'function');
+
+    return {
+      functions,
+      ...(classInfo ? { classInfo } : {}),
+      module: moduleExports,
+      path: modulePath,
+      root: scriptRoots.rootOf(modulePath)!.name,
+      limits: moduleExports.executionLimits,
+      ...(importCycles.length > 0 ? { importCycles } : {}),
+      ...(hooks.length > 0 ? { hooks } : {}),
+    };
+  }
+
+  /**
+   * Load a module, falling back to the previously loaded version (marked with
+   * the reload error) when the new code fails to load
+   */
+  private async loadModuleSafely(
+    moduleName: string,
+    filePath: string,
+    previous?: ModuleInfo
+  ): Promise<ModuleInfo | null> {
+    const file = scriptRoots.mountPath(filePath)!;
+    let typeErrors: TypeDiagnostic[] = [];
+
+    try {
+      typeErrors = this.checkTypes(moduleName, filePath);
+      if (typeErrors.length > 0 && CONFIG.TYPE_CHECK_MODE === 'block') {
+        throw new TypeCheckError(typeErrors);
+      }
+
+      const moduleInfo = await this.loadModule(moduleName, filePath);
+      this.diagnostics.set(moduleName, {
+        module: moduleName,
+        file,
+        ...(moduleInfo
+          ? { status: 'loaded' }
+          : { status: 'empty', error: 'No functions found in module' }),
+        ...(typeErrors.length > 0 ? { typeErrors } : {}),
+      });
+      return moduleInfo;
     } catch (err) {
       const error = err as Error;
       logger.error(`Failed to load module: ${filePath}`, {
@@ -337,57 +560,193 @@ export class ModuleManager {
         stack: error.stack || 'No stack trace',
         name: error.name || 'Error',
       });
-      return null;
+
+      const status = previous ? 'stale' : 'failed';
+      this.diagnostics.set(moduleName, {
+        ...LoadDiagnostics.fromError(error, { module: moduleName, file, status }, scriptRoots),
+        ...(typeErrors.length > 0 ? { typeErrors } : {}),
+      });
+
+      if (!previous) {
+        return null;
+      }
+
+      logger.warn(`Keeping last working version of module: ${moduleName}`);
+      return { ...previous, reloadError: error.message || String(error) };
     }
   }
 
   /**
-   * Get all available modules from scripts directory
+   * Type check a script unless TYPE_CHECK_MODE is off. A failure of the checker
+   * itself is logged and never prevents loading.
+   */
+  private checkTypes(moduleName: string, filePath: string): TypeDiagnostic[] {
+    if (CONFIG.TYPE_CHECK_MODE === 'off') {
+      return [];
+    }
+
+    try {
+      const typeErrors = TypeChecker.check(path.resolve(filePath), scriptRoots);
+      if (typeErrors.length > 0 && CONFIG.TYPE_CHECK_MODE === 'warn') {
+        logger.warn(`Module ${moduleName} has ${typeErrors.length} type error(s)`, typeErrors);
+      }
+      return typeErrors;
+    } catch (error) {
+      logger.warn(`Failed to type check module: ${moduleName}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Load status of every script file, including files that failed to load or
+   * export no functions, and lifecycle hooks that failed in the workers
+   */
+  public async getDiagnostics(): Promise<ModuleDiagnostic[]> {
+    const modules = await this.getAvailableModules();
+    return Array.from(this.diagnostics.values())
+      .map((diagnostic) => {
+        const moduleInfo = modules[diagnostic.module];
+        const hookErrors = moduleInfo ? workerPool.getHookFailures(moduleInfo.path) : [];
+        return hookErrors.length > 0 ? { ...diagnostic, hookErrors } : diagnostic;
+      })
+      .sort((a, b) => a.file.localeCompare(b.file));
+  }
+
+  /**
+   * Run the health() hook of every module that exports one. A module is unhealthy
+   * when its hook throws, times out or returns false.
+   */
+  public async checkHealth(): Promise<ModuleHealth[]> {
+    const modules = await this.getAvailableModules();
+
+    return Promise.all(
+      Object.entries(modules)
+        .filter(([, moduleInfo]) => moduleInfo.hooks?.includes('health'))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(async ([name, moduleInfo]): Promise<ModuleHealth> => {
+          const startTime = Date.now();
+          try {
+            const limits = this.resolveExecutionLimits(moduleInfo, 'health');
+            const { text, value } = await workerPool.health(moduleInfo.path, limits);
+            return {
+              module: name,
+              healthy: !(value.type === 'boolean' && value.value === false),
+              result: text,
+              value,
+              durationMs: Date.now() - startTime,
+            };
+          } catch (error) {
+            return {
+              module: name,
+              healthy: false,
+              error: error instanceof Error ? error.message : String(error),
+              durationMs: Date.now() - startTime,
+            };
+          }
+        })
+    );
+  }
+
+  /**
+   * Get all available modules from scripts directory. While the file watcher is
+   * running the cache is kept up to date incrementally, so the directory is only
+   * scanned on first use or when a refresh is forced. Once the cache is older than
+   * CACHE_TTL, loaded scripts are checked for changes the watcher missed.
    */
   public async getAvailableModules(forceRefresh: boolean = false): Promise<ModulesMap> {
     const now = Date.now();
 
     // Return cached modules if still valid
-    if (
-      !forceRefresh &&
-      Object.keys(this.modulesCache).length > 0 &&
-      now - this.cacheTimestamp < CONFIG.CACHE_TTL
-    ) {
+    if (!forceRefresh && this.cacheTimestamp > 0 && now - this.cacheTimestamp < CONFIG.CACHE_TTL) {
       logger.debug('Returning cached modules');
       return this.modulesCache;
     }
 
+    if (!forceRefresh && this.cacheTimestamp > 0 && this.fileWatchers.length > 0) {
+      this.cacheTimestamp = now;
+      const missedChanges = this.findMissedChanges();
+      if (missedChanges.length > 0) {
+        logger.info(`Reloading ${missedChanges.length} script(s) the file watcher missed`);
+        await this.reloadChangedFiles(missedChanges);
+      }
+      return this.modulesCache;
+    }
+
     logger.debug('Refreshing modules from disk');
     const modules: ModulesMap = {};
 
     try {
-      // Check if scripts directory exists
-      if (!fs.existsSync(CONFIG.SCRIPTS_DIR)) {
-        logger.warn(`Scripts directory does not exist: ${CONFIG.SCRIPTS_DIR}`);
-        return modules;
-      }
+      const roots = scriptRoots.roots.filter((root) => {
+        if (!fs.existsSync(root.dir)) {
+          logger.warn(`Scripts directory does not exist: ${root.dir}`);
+          return false;
+        }
+        return true;
+      });
+
+      // Get all supported script files. When two files share a module name (cat.ts
+      // and cat.js, or the same path in two roots) the one resolveModuleFile picks wins.
+      const files = new Map<string, string>();
+      roots.forEach((root) =>
+        this.discoverModuleFiles(root.dir, scriptRoots.namespaceParts(root)).forEach(
+          ({ name, filePath }) => {
+            const existing = files.get(name);
+            if (!existing) {
+              files.set(name, filePath);
+              return;
+            }
+
+            const [kept, ignored] =
+              this.resolveModuleFile(name) === filePath
+                ? [filePath, existing]
+                : [existing, filePath];
+            logger.warn(`Module name collision for '${name}': using ${kept}, ignoring ${ignored}`);
+            files.set(name, kept);
+          }
+        )
+      );
+
+      // Start from fresh copies of every script, including imported helpers
+      const staleFiles = this.dependencyGraph.dependentsOf(
+        scriptRoots.roots.map((root) => root.dir)
+      );
+      files.forEach((filePath) => staleFiles.add(filePath));
+      staleFiles.forEach((file) => clearRequireCache(file));
 
-      // Get all supported script files
-      const files = fs
-        .readdirSync(CONFIG.SCRIPTS_DIR)
-        .filter((file) => ['.ts', '.js'].includes(path.extname(file)))
-        .map((file) => path.join(CONFIG.SCRIPTS_DIR, file));
+      files.forEach((filePath, name) => this.recordVersion(name, filePath));
 
       // Load modules in parallel
-      const modulePromises = files.map((file) => this.loadModule(file));
-      const moduleResults = await Promise.all(modulePromises);
+      const moduleNames = Array.from(files.keys());
+      const moduleResults = await Promise.all(
+        moduleNames.map((name) =>
+          this.loadModuleSafely(name, files.get(name)!, this.modulesCache[name])
+        )
+      );
 
       // Build modules map
       moduleResults.forEach((moduleInfo, index) => {
         if (moduleInfo) {
-          const moduleName = path.basename(files[index], path.extname(files[index]));
-          modules[moduleName] = moduleInfo;
+          modules[moduleNames[index]] = moduleInfo;
         }
       });
 
+      // Forget diagnostics of scripts that no longer exist
+      Array.from(this.diagnostics.keys())
+        .filter((name) => !files.has(name))
+        .forEach((name) => this.diagnostics.delete(name));
+
+      // Refreshing a loaded cache reloads every module, including in the workers
+      const reloaded = new Map<string, ModuleInfo | null>();
+      if (this.cacheTimestamp > 0) {
+        Object.keys(this.modulesCache).forEach((name) => reloaded.set(name, null));
+        moduleNames.forEach((name) => reloaded.set(name, modules[name] || null));
+      }
+
       // Update cache
       this.modulesCache = modules;
       this.cacheTimestamp = now;
+      this.applyReloadToWorkers(staleFiles, reloaded);
+      this.recordFileTimes();
 
       logger.info(`Loaded ${Object.keys(modules).length} modules`);
       return modules;
@@ -398,23 +757,221 @@ export class ModuleManager {
   }
 
   /**
-   * Execute a function call string
+   * Modules as listed by /api/modules, without functions tagged @hidden
    */
+  public async listModules(forceRefresh: boolean = false): Promise<ModulesMap> {
+    const modules = await this.getAvailableModules(forceRefresh);
+
+    return Object.fromEntries(
+      Object.entries(modules).map(([name, moduleInfo]) => [
+        name,
+        {
+          ...moduleInfo,
+          functions: moduleInfo.functions.filter((functionInfo) => !functionInfo.policy?.hidden),
+        },
+      ])
+    );
+  }
+
+  /**
+   * Mount path of a module's TypeScript file, or null when a file at that path
+   * would not be loaded as this module (invalid or underscore-prefixed name parts)
+   */
+  private mountPathFor(moduleName: string): string | null {
+    const mountPath = path.join(...moduleName.split('.')) + '.ts';
+    return this.moduleNameFor(mountPath) === moduleName ? mountPath : null;
+  }
+
+  /**
+   * Read the source of a module's file. Resolves to null when the module has no file.
+   */
+  public async readModuleSource(moduleName: string): Promise<ModuleSourceResponse | null> {
+    const filePath = this.mountPathFor(moduleName) && this.resolveModuleFile(moduleName);
+    if (!filePath) {
+      return null;
+    }
+
+    const root = scriptRoots.rootOf(filePath)!;
+    return {
+      module: moduleName,
+      file: scriptRoots.mountPath(filePath)!,
+      source: await fs.promises.readFile(filePath, 'utf8'),
+      root: root.name,
+      readOnly: root.readOnly,
+    };
+  }
+
+  /**
+   * Create or replace a module with TypeScript source. The source is compiled
+   * (and type checked unless TYPE_CHECK_MODE is off) before it replaces the file
+   * atomically; a JavaScript file of the same module is removed afterwards.
+   * New modules go to the first writable root mounted above their name.
+   */
+  public async writeModule(moduleName: string, source: string): Promise<ModuleWriteResponse> {
+    if (RESERVED_MODULE_NAMES.includes(moduleName)) {
+      return {
+        module: moduleName,
+        error: `Module name '${moduleName}' is reserved by the /api/modules/${moduleName} route`,
+        code: 'INVALID_MODULE_NAME',
+      };
+    }
+
+    const mountPath = this.mountPathFor(moduleName);
+    if (!mountPath) {
+      return {
+        module: moduleName,
+        error: `Invalid module name '${moduleName}'. Use dotted names such as cat or farm.cow; parts must not start with '_'`,
+        code: 'INVALID_MODULE_NAME',
+      };
+    }
+
+    if (typeof source !== 'string' || source.trim() === '') {
+      return { module: moduleName, error: 'Missing source in request', code: 'INVALID_SOURCE' };
+    }
+
+    // TypeScript modules keep their extension (.ts or .mts), others become .ts
+    const existing = this.resolveModuleFile(moduleName);
+    const extension =
+      existing && ['.ts', '.mts'].includes(path.extname(existing)) ? path.extname(existing) : '.ts';
+
+    let filePath: string;
+    try {
+      const target = scriptRoots.writablePath(
+        existing ? scriptRoots.mountPath(existing)! : mountPath
+      );
+      filePath = target.slice(0, -path.extname(target).length) + extension;
+    } catch (error) {
+      return this.readOnlyResponse(moduleName, error);
+    }
+
+    const file = scriptRoots.mountPath(filePath)!;
+    const compileErrors = TypeChecker.checkSyntax(source, file);
+    if (compileErrors.length > 0) {
+      return {
+        module: moduleName,
+        error: 'Source does not compile',
+        code: 'COMPILE_ERROR',
+        compileErrors,
+      };
+    }
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Written next to the target so the final rename stays on one file system
+    const tempPath = path.join(
+      path.dirname(filePath),
+      `.${path.basename(filePath, extension)}.${crypto.randomBytes(4).toString('hex')}.tmp${extension}`
+    );
+
+    let typeErrors: TypeDiagnostic[] = [];
+    try {
+      await fs.promises.writeFile(tempPath, source, 'utf8');
+
+      if (CONFIG.TYPE_CHECK_MODE !== 'off') {
+        const tempFile = scriptRoots.mountPath(tempPath);
+        typeErrors = TypeChecker.check(tempPath, scriptRoots).map((typeError) =>
+          typeError.file === tempFile ? { ...typeError, file } : typeError
+        );
+      }
+
+      if (typeErrors.length > 0 && CONFIG.TYPE_CHECK_MODE === 'block') {
+        return {
+          module: moduleName,
+          error: 'Source has type errors',
+          code: 'TYPE_ERROR',
+          typeErrors,
+        };
+      }
+
+      await fs.promises.rename(tempPath, filePath);
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+
+    if (existing && existing !== filePath) {
+      await fs.promises.unlink(existing);
+    }
+
+    logger.info(`${existing ? 'Updated' : 'Created'} module ${moduleName} through the API`);
+    await this.reloadChangedFiles([filePath]);
+    await this.getAvailableModules();
+
+    return {
+      module: moduleName,
+      file,
+      created: !existing,
+      ...(typeErrors.length > 0 ? { typeErrors } : {}),
+      reload: this.diagnostics.get(moduleName),
+    };
+  }
+
+  /**
+   * Delete every file of a module (both the .ts and .js variants) in the root
+   * that provides it
+   */
+  public async deleteModule(moduleName: string): Promise<ModuleWriteResponse> {
+    const existing = this.mountPathFor(moduleName) && this.resolveModuleFile(moduleName);
+    if (!existing) {
+      return {
+        module: moduleName,
+        error: `Module '${moduleName}' not found`,
+        code: 'MODULE_NOT_FOUND',
+      };
+    }
+
+    let basePath: string;
+    try {
+      const target = scriptRoots.writablePath(scriptRoots.mountPath(existing)!);
+      basePath = target.slice(0, -path.extname(target).length);
+    } catch (error) {
+      return this.readOnlyResponse(moduleName, error);
+    }
+
+    const files = MODULE_EXTENSIONS.map((extension) => basePath + extension).filter((file) =>
+      fs.existsSync(file)
+    );
+
+    await Promise.all(files.map((file) => fs.promises.unlink(file)));
+    logger.info(`Deleted module ${moduleName} through the API`);
+    await this.reloadChangedFiles(files);
+
+    return { module: moduleName, file: scriptRoots.mountPath(existing)!, deleted: true };
+  }
+
+  /**
+   * Response for a write rejected by a read-only root; other errors are rethrown
+   */
+  private readOnlyResponse(moduleName: string, error: unknown): ModuleWriteResponse {
+    if (!(error instanceof ReadOnlyRootError)) {
+      throw error;
+    }
+    return { module: moduleName, error: error.message, code: 'READ_ONLY_ROOT' };
+  }
+
+  /**
+   * Reload changed files right away, e.g. files written by this process so the
+   * caller can report the outcome. The changes may have replaced files by a
+   * rename, so the watchers are recreated as well.
+   */
+  private async reloadChangedFiles(filePaths: string[]): Promise<void> {
+    this.rearmFileWatchers();
+
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    filePaths.forEach((filePath) => this.pendingChanges.add(filePath));
+    await this.queueReload();
+  }
+
   /**
    * Parse and validate function call string
    */
-  private parseFunctionCall(
-    callString: string
-  ): { moduleName: string; functionName: string; args: any[]; error?: string } | null {
+  private parseFunctionCall(callString: string): { call?: CallNode; error?: string } {
     try {
       // Check for basic structure issues
       if (!callString || typeof callString !== 'string') {
-        return {
-          moduleName: '',
-          functionName: '',
-          args: [],
-          error: 'Function call string is empty or invalid',
-        };
+        return { error: 'Function call string is empty or invalid' };
       }
 
       const trimmed = callString.trim();
@@ -422,9 +979,6 @@ export class ModuleManager {
       // Check if it contains a dot
       if (!trimmed.includes('.')) {
         return {
-          moduleName: '',
-          functionName: '',
-          args: [],
           error: 'Missing module name. Expected format: moduleName.functionName(args)',
         };
       }
@@ -432,158 +986,286 @@ export class ModuleManager {
       // Check if it contains parentheses
       if (!trimmed.includes('(') || !trimmed.includes(')')) {
         return {
-          moduleName: '',
-          functionName: '',
-          args: [],
           error: 'Missing parentheses. Expected format: moduleName.functionName(args)',
         };
       }
 
-      // Validate basic format: moduleName.functionName(args)
-      const functionCallRegex = /^([a-zA-Z_][a-zA-Z0-9_]*)\.([a-zA-Z_][a-zA-Z0-9_]*)\((.*)\)$/;
-      const match = trimmed.match(functionCallRegex);
-
-      if (!match) {
-        // Provide more specific error messages
-        if (trimmed.match(/^[^.]*\.[^.]*\(.*\)$/)) {
-          return {
-            moduleName: '',
-            functionName: '',
-            args: [],
-            error:
-              'Invalid module or function name. Names must start with letter or underscore and contain only letters, numbers, and underscores',
-          };
-        }
-        return {
-          moduleName: '',
-          functionName: '',
-          args: [],
-          error: 'Invalid function call format. Expected: moduleName.functionName(args)',
-        };
-      }
-
-      const [, moduleName, functionName, argsString] = match;
-
-      // Parse arguments safely
-      let args: any[] = [];
-      if (argsString.trim()) {
-        try {
-          // Check for common syntax errors
-          if (argsString.includes('，')) {
-            return {
-              moduleName,
-              functionName,
-              args: [],
-              error: 'Invalid comma character. Use English comma (,) instead of Chinese comma (，)',
-            };
-          }
-
-          if (argsString.trim().endsWith(',')) {
-            return {
-              moduleName,
-              functionName,
-              args: [],
-              error: 'Trailing comma in arguments. Remove the comma after the last argument',
-            };
-          }
-
-          // Use JSON.parse for safe argument parsing
-          args = JSON.parse(`[${argsString}]`);
-        } catch (parseError) {
-          return {
-            moduleName,
-            functionName,
-            args: [],
-            error:
-              'Invalid arguments format. Use JSON-compatible values (strings in quotes, numbers, booleans, null)',
-          };
+      // Parse calls and literal arguments without evaluating any code
+      try {
+        return { call: CallExpressionParser.parse(trimmed) };
+      } catch (parseError) {
+        if (parseError instanceof LiteralParseError) {
+          return { error: `Invalid function call format: ${parseError.message}` };
         }
+        throw parseError;
       }
-
-      return { moduleName, functionName, args };
     } catch (error) {
       logger.error(`Failed to parse function call: ${error}`);
-      return {
-        moduleName: '',
-        functionName: '',
-        args: [],
-        error: 'Unexpected error parsing function call',
-      };
+      return { error: 'Unexpected error parsing function call' };
     }
   }
 
   /**
-   * Validate function call against available modules
+   * Find what a call runs: a function of a module, `new` on a module that exports
+   * a class, or a method of a live instance. Modules take precedence over
+   * instances of the same name.
    */
-  private async validateFunctionCall(moduleName: string, functionName: string): Promise<boolean> {
+  private async findCallTarget(
+    moduleName: string,
+    functionName: string
+  ): Promise<CallTarget | null> {
     const modules = await this.getAvailableModules();
+    const moduleInfo = modules[moduleName];
 
-    // Check if module exists
-    if (!modules[moduleName]) {
-      logger.warn(`Module '${moduleName}' not found`);
-      return false;
+    if (moduleInfo) {
+      const functionInfo = moduleInfo.functions.find((f) => f.name === functionName);
+      if (functionName === 'new' && moduleInfo.classInfo && functionInfo) {
+        return { kind: 'construct', functionInfo, moduleInfo };
+      }
+
+      // Check if function exists in module
+      if (!functionInfo || typeof moduleInfo.module[functionName] !== 'function') {
+        logger.warn(`Function '${functionName}' not found in module '${moduleName}'`);
+        return null;
+      }
+      return { kind: 'function', functionInfo, moduleInfo };
     }
 
-    // Check if function exists in module
-    if (typeof modules[moduleName].module[functionName] !== 'function') {
-      logger.warn(`Function '${functionName}' not found in module '${moduleName}'`);
-      return false;
+    const instance = instanceRegistry.get(moduleName);
+    const method = instance?.methods.find((m) => m.name === functionName);
+    if (instance && method) {
+      return { kind: 'method', functionInfo: method, moduleInfo: modules[instance.module] };
     }
 
-    return true;
+    logger.warn(`Module or instance '${moduleName}' not found`);
+    return null;
   }
 
   /**
-   * Validate function parameters against function signature
+   * Map named arguments onto parameter positions. A lone object literal is read as
+   * named arguments unless the first parameter accepts it as a positional value.
    */
-  private async validateFunctionParameters(
-    moduleName: string,
-    functionName: string,
-    args: any[]
-  ): Promise<{ isValid: boolean; error?: string }> {
-    const modules = await this.getAvailableModules();
-    const moduleInfo = modules[moduleName];
+  private resolveNamedArguments(
+    callName: string,
+    functionInfo: FunctionInfo,
+    positional: any[],
+    named: NamedArgument[]
+  ): { args?: any[]; error?: string } {
+    const params = functionInfo.parameters;
+    const single = positional[0];
+
+    if (
+      named.length === 0 &&
+      positional.length === 1 &&
+      params.length > 0 &&
+      typeof single === 'object' &&
+      single !== null &&
+      !Array.isArray(single)
+    ) {
+      const keys = Object.keys(single);
+      const allParameterNames =
+        keys.length > 0 && keys.every((key) => params.some((param) => param.name === key));
 
-    if (!moduleInfo) {
-      return { isValid: false, error: `Module '${moduleName}' not found` };
+      if (allParameterNames || !TypeValidator.matches(single, params[0].type)) {
+        named = keys.map((name) => ({ name, value: single[name] }));
+        positional = [];
+      }
     }
 
-    // Find function info
-    const functionInfo = moduleInfo.functions.find((f) => f.name === functionName);
-    if (!functionInfo) {
-      return {
-        isValid: false,
-        error: `Function '${functionName}' not found in module '${moduleName}'`,
-      };
+    if (named.length === 0) {
+      return { args: positional };
     }
 
-    const requiredParams = functionInfo.parameters;
+    const args: any[] = [...positional];
+    const restIndex = params.findIndex((param) => param.rest);
+    let restValues: any[] = [];
+
+    for (const { name, value } of named) {
+      const index = params.findIndex((param) => param.name === name);
+
+      if (index === -1) {
+        const available = params.map((param) => param.name).join(', ') || 'none';
+        return {
+          error: `Unknown parameter '${name}' for ${callName}. Available parameters: ${available}`,
+        };
+      }
+
+      if (index < positional.length) {
+        return { error: `Parameter '${name}' was passed both by position and by name` };
+      }
 
-    // Check if we have too many arguments
-    if (args.length > requiredParams.length) {
+      if (index === restIndex) {
+        if (!Array.isArray(value)) {
+          return { error: `Rest parameter '${name}' must be given an array of values` };
+        }
+        restValues = value;
+      } else {
+        args[index] = value;
+      }
+    }
+
+    // Fill skipped optional parameters with undefined so defaults apply
+    const resolved = Array.from(args);
+    if (restValues.length > 0) {
+      resolved.length = restIndex;
+      resolved.push(...restValues);
+    }
+
+    return { args: resolved };
+  }
+
+  /**
+   * Validate function parameters against function signature
+   */
+  private validateFunctionParameters(
+    functionInfo: FunctionInfo,
+    args: any[]
+  ): { isValid: boolean; error?: string } {
+    const params = functionInfo.parameters;
+    const restParam =
+      params.length > 0 && params[params.length - 1].rest ? params[params.length - 1] : null;
+    const positionalParams = restParam ? params.slice(0, -1) : params;
+    const requiredCount = positionalParams.filter((param) => !param.optional).length;
+
+    // Check if we have too many arguments (rest parameters accept any number)
+    if (!restParam && args.length > params.length) {
+      const expected =
+        requiredCount === params.length ? `${params.length}` : `${requiredCount}-${params.length}`;
       return {
         isValid: false,
-        error: `Too many arguments. Expected ${requiredParams.length}, got ${args.length}`,
+        error: `Too many arguments. Expected ${expected}, got ${args.length}`,
       };
     }
 
-    // Check for missing required parameters (non-undefined values)
-    for (let i = 0; i < requiredParams.length; i++) {
-      const param = requiredParams[i];
+    for (let i = 0; i < positionalParams.length; i++) {
+      const param = positionalParams[i];
       const argValue = args[i];
 
-      // If argument is missing or explicitly undefined/null, it's invalid
-      if (i >= args.length || argValue === undefined || argValue === null || argValue === '') {
+      // Optional and default-valued parameters may be omitted or passed as undefined
+      if (i >= args.length || argValue === undefined) {
+        if (param.optional) {
+          continue;
+        }
         return {
           isValid: false,
           error: `Missing required parameter '${param.name}' (${param.type})`,
         };
       }
+
+      // Check the argument against the declared TypeScript type
+      if (!TypeValidator.matches(argValue, param.type)) {
+        return {
+          isValid: false,
+          error: `Invalid parameter '${param.name}': expected ${param.type}, got ${TypeValidator.describeValue(argValue)}`,
+        };
+      }
+    }
+
+    // Remaining arguments are collected into the rest parameter
+    if (restParam && args.length > positionalParams.length) {
+      const restArgs = args.slice(positionalParams.length);
+      if (!TypeValidator.matches(restArgs, restParam.type)) {
+        return {
+          isValid: false,
+          error: `Invalid parameter '...${restParam.name}': expected ${restParam.type}, got ${TypeValidator.describeValue(restArgs)}`,
+        };
+      }
     }
 
     return { isValid: true };
   }
 
+  /**
+   * Resolve limits for a call: CONFIG defaults, then module, then function
+   * overrides, then the function's @timeout tag. A function given more time by
+   * its tag may also use that much CPU time, unless a CPU limit is set explicitly.
+   */
+  private resolveExecutionLimits(
+    moduleInfo: ModuleInfo | undefined,
+    functionName: string,
+    policy: FunctionPolicy = {}
+  ): ExecutionLimits {
+    const limits: ExecutionLimits = { ...CONFIG.EXECUTION_LIMITS };
+    const moduleLimits: ModuleExecutionLimits = moduleInfo?.limits || {};
+    const functionLimits = moduleLimits.functions?.[functionName] || {};
+    const cpuLimitSet =
+      moduleLimits.maxCpuMs !== undefined || functionLimits.maxCpuMs !== undefined;
+    const overrides = [
+      moduleLimits,
+      functionLimits,
+      policy.timeoutMs
+        ? {
+            timeoutMs: policy.timeoutMs,
+            ...(cpuLimitSet ? {} : { maxCpuMs: Math.max(limits.maxCpuMs, policy.timeoutMs) }),
+          }
+        : {},
+    ];
+
+    overrides.forEach((override) => {
+      (Object.keys(limits) as (keyof ExecutionLimits)[]).forEach((name) => {
+        const value = override[name];
+        if (value === undefined) {
+          return;
+        }
+        if (typeof value === 'number' && isFinite(value) && value > 0) {
+          limits[name] = value;
+        } else {
+          logger.warn(`Ignoring invalid ${name} limit for ${functionName}: ${value}`);
+        }
+      });
+    });
+
+    return limits;
+  }
+
+  /**
+   * Check a call against the @role and @rateLimit tags of its function, and note
+   * a @deprecated function. Returns the error response when the call may not run.
+   */
+  private checkPolicy(
+    callName: string,
+    policy: FunctionPolicy | undefined,
+    options: CallOptions
+  ): ExecuteResponse | null {
+    if (!policy) {
+      return null;
+    }
+
+    const caller = options.caller || { id: 'local', roles: [] };
+
+    if (policy.role && !AuthManager.hasRole(caller.roles, policy.role)) {
+      logger.warn(`Denied ${callName} to ${caller.id}: requires role '${policy.role}'`);
+      return { error: `${callName} requires the '${policy.role}' role`, code: 'FORBIDDEN' };
+    }
+
+    if (policy.rateLimit) {
+      const { maxCalls, windowMs } = policy.rateLimit;
+      const key = `${callName} ${maxCalls}/${windowMs}`;
+      let limiter = this.rateLimiters.get(key);
+      if (!limiter) {
+        limiter = new RateLimiter(maxCalls, windowMs);
+        this.rateLimiters.set(key, limiter);
+      }
+
+      if (!limiter.isAllowed(caller.id)) {
+        logger.warn(`Rate limit of ${callName} exceeded for ${caller.id}`);
+        return {
+          error: `Rate limit exceeded for ${callName}: at most ${maxCalls} calls per ${windowMs}ms`,
+          code: 'RATE_LIMITED',
+        };
+      }
+    }
+
+    if (policy.deprecated !== undefined) {
+      const warning =
+        `${callName} is deprecated` + (policy.deprecated ? `: ${policy.deprecated}` : '');
+      logger.warn(warning);
+      options.warnings?.push(warning);
+    }
+
+    return null;
+  }
+
   /**
    * Sanitize and validate arguments
    */
@@ -591,7 +1273,15 @@ export class ModuleManager {
     return args.map((arg) => InputSanitizer.sanitizeParameter(arg));
   }
 
-  public async executeFunction(callString: string): Promise<{ result?: string; error?: string }> {
+  /**
+   * Execute a call expression. Nested calls and pipe stages run first, each one
+   * validated and limited like a top-level call. Only the outermost call streams
+   * generator values to `options.onYield`; nested generators return arrays.
+   */
+  public async executeFunction(
+    callString: string,
+    options: CallOptions = {}
+  ): Promise<ExecuteResponse> {
     try {
       logger.debug(`Executing: ${callString}`);
 
@@ -602,25 +1292,163 @@ export class ModuleManager {
 
       // Parse function call safely
       const parsed = this.parseFunctionCall(callString);
-      if (!parsed) {
-        return { error: 'Failed to parse function call' };
+      if (!parsed.call) {
+        return { error: parsed.error || 'Failed to parse function call' };
+      }
+
+      const steps: CallStep[] = [];
+      const warnings: string[] = [];
+      const response = await this.executeCall(parsed.call, 0, steps, { ...options, warnings });
+      if (warnings.length > 0) {
+        response.warnings = warnings;
+      }
+
+      // Expressions with more than one call report a per-call breakdown
+      if (parsed.call.countCalls() > 1) {
+        const lastStep = steps[steps.length - 1];
+        if (response.error !== undefined && lastStep && lastStep.depth > 0) {
+          response.error = `${lastStep.call}: ${response.error}`;
+        }
+        response.steps = steps;
+      }
+
+      return response;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Execution failed: ${errorMessage}`);
+      return { error: 'Function execution failed' };
+    }
+  }
+
+  /**
+   * Evaluate call arguments in order, running nested calls first
+   */
+  private async evaluateArguments(
+    values: any[],
+    depth: number,
+    steps: CallStep[],
+    options: CallOptions
+  ): Promise<{ values?: any[]; failure?: ExecuteResponse }> {
+    const evaluated: any[] = [];
+
+    for (const value of values) {
+      if (!(value instanceof CallNode)) {
+        evaluated.push(value);
+        continue;
       }
 
-      // Check for parsing errors
-      if (parsed.error) {
-        return { error: parsed.error };
+      const { signal, caller, warnings } = options;
+      const inner = await this.executeCall(value, depth + 1, steps, { signal, caller, warnings });
+      if (inner.error !== undefined) {
+        return { failure: inner };
+      }
+
+      // Pass the result on as a value, not as its text
+      if (inner.value === undefined) {
+        evaluated.push(inner.result);
+        continue;
       }
+      try {
+        evaluated.push(ValueSerializer.deserialize(inner.value));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { failure: { error: `Result cannot be passed on: ${reason}` } };
+      }
+    }
+
+    return { values: evaluated };
+  }
+
+  /**
+   * Run a parsed call once its nested calls have produced their results,
+   * recording every call in the breakdown
+   */
+  private async executeCall(
+    call: CallNode,
+    depth: number,
+    steps: CallStep[],
+    options: CallOptions
+  ): Promise<ExecuteResponse> {
+    const positional = await this.evaluateArguments(call.args.positional, depth, steps, options);
+    if (!positional.values) {
+      return positional.failure!;
+    }
 
-      const { moduleName, functionName, args } = parsed;
+    const named = await this.evaluateArguments(
+      call.args.named.map((arg) => arg.value),
+      depth,
+      steps,
+      options
+    );
+    if (!named.values) {
+      return named.failure!;
+    }
+
+    const startTime = Date.now();
+    const response = await this.invokeFunction(
+      call.moduleName,
+      call.functionName,
+      positional.values,
+      call.args.named.map((arg, index) => ({ name: arg.name, value: named.values![index] })),
+      options
+    );
+
+    steps.push({
+      call: call.source,
+      depth,
+      durationMs: Date.now() - startTime,
+      ...(response.error !== undefined
+        ? { error: response.error }
+        : { result: response.result, value: response.value }),
+    });
+    return response;
+  }
 
+  /**
+   * Validate, sanitize and run a single function call in a worker thread.
+   * Calls on an instance run on the worker holding it.
+   */
+  private async invokeFunction(
+    moduleName: string,
+    functionName: string,
+    positional: any[],
+    named: NamedArgument[],
+    options: CallOptions
+  ): Promise<ExecuteResponse> {
+    try {
       // Validate function exists
-      const isValid = await this.validateFunctionCall(moduleName, functionName);
-      if (!isValid) {
-        return { error: `Function ${moduleName}.${functionName} not found` };
+      const target = await this.findCallTarget(moduleName, functionName);
+      if (!target) {
+        const loss = instanceRegistry.lossOf(moduleName);
+        return loss === null
+          ? { error: `Function ${moduleName}.${functionName} not found` }
+          : { error: new InstanceLostError(moduleName, loss).message, code: 'INSTANCE_LOST' };
+      }
+
+      // Enforce the function's JSDoc policy tags
+      const policyError = this.checkPolicy(
+        `${moduleName}.${functionName}`,
+        target.functionInfo.policy,
+        options
+      );
+      if (policyError) {
+        return policyError;
       }
 
+      // Map named arguments onto parameter positions
+      const resolved = this.resolveNamedArguments(
+        `${moduleName}.${functionName}`,
+        target.functionInfo,
+        positional,
+        named
+      );
+      if (!resolved.args) {
+        return { error: resolved.error };
+      }
+      const args = resolved.args;
+
       // Validate function parameters
-      const paramValidation = await this.validateFunctionParameters(moduleName, functionName, args);
+      const paramValidation = this.validateFunctionParameters(target.functionInfo, args);
       if (!paramValidation.isValid) {
         return { error: paramValidation.error };
       }
@@ -635,34 +1463,87 @@ export class ModuleManager {
         };
       }
 
-      // Get modules and execute function safely
-      const modules = await this.getAvailableModules();
-      const targetFunction = modules[moduleName].module[functionName];
-
-      // Execute with timeout protection
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Function execution timeout')), 5000);
+      // Execute in a worker thread so runaway calls can be terminated
+      const execution = await this.runCallTarget(target, moduleName, functionName, sanitizedArgs, {
+        signal: options.signal,
+        onYield: options.onYield,
       });
 
-      const executionPromise = Promise.resolve(targetFunction.apply(null, sanitizedArgs));
-
-      const result = await Promise.race([executionPromise, timeoutPromise]);
-      const resultString = String(result);
-
       // Limit result size
-      if (resultString.length > 10000) {
+      if (execution.text.length > 10000) {
         return { error: 'Result too large' };
       }
 
-      logger.debug(`Execution result: ${resultString}`);
-      return { result: resultString };
+      logger.debug(`Execution result: ${execution.text}`);
+      return { result: execution.text, value: execution.value };
     } catch (error) {
+      if (error instanceof ExecutionLimitError) {
+        logger.warn(`Execution limit exceeded (${error.code}): ${moduleName}.${functionName}`);
+        return {
+          error: error.message,
+          code: error.code,
+          limit: { name: error.limit, value: error.value },
+        };
+      }
+
+      if (error instanceof InstanceLostError) {
+        return { error: error.message, code: 'INSTANCE_LOST' };
+      }
+
+      if (error instanceof ExecutionCancelledError || error instanceof InstanceError) {
+        return { error: error.message };
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Execution failed: ${errorMessage}`);
       return { error: 'Function execution failed' };
     }
   }
 
+  /**
+   * Run a validated call: create an instance for `module.new(name, ...args)`,
+   * dispose one for `instance.dispose()`, otherwise call the function or method
+   */
+  private async runCallTarget(
+    target: CallTarget,
+    moduleName: string,
+    functionName: string,
+    args: any[],
+    options: ExecutionOptions
+  ): Promise<ExecutionResult> {
+    const limits = this.resolveExecutionLimits(
+      target.moduleInfo,
+      functionName,
+      target.functionInfo.policy
+    );
+
+    switch (target.kind) {
+      case 'construct': {
+        const [instanceName, ...constructorArgs] = args;
+        const modules = await this.getAvailableModules();
+        if (modules[instanceName]) {
+          throw new InstanceError(`Name '${instanceName}' is already used by a module`);
+        }
+        return instanceRegistry.create(
+          instanceName,
+          moduleName,
+          target.moduleInfo!,
+          constructorArgs,
+          limits,
+          options
+        );
+      }
+
+      case 'method':
+        return functionName === 'dispose'
+          ? instanceRegistry.dispose(moduleName, limits)
+          : instanceRegistry.invoke(moduleName, functionName, args, limits, options);
+
+      default:
+        return workerPool.execute(target.moduleInfo!.path, functionName, args, limits, options);
+    }
+  }
+
   /**
    * Clear module cache
    */
@@ -673,12 +1554,17 @@ export class ModuleManager {
   }
 
   /**
-   * Stop file watcher
+   * Stop file watchers and drop changes still waiting to be applied
    */
   public stopWatcher(): void {
-    if (this.fileWatcher) {
-      this.fileWatcher.close();
-      this.fileWatcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.pendingChanges.clear();
+
+    if (this.fileWatchers.length > 0) {
+      this.closeFileWatchers();
       logger.info('File watcher stopped');
     }
   }
@@ -0,0 +1,104 @@
+/**
+ * Persistent state of scripts as seen from inside them. A script gets its own
+ * store by calling getState(), at the top level or in any function:
+ *
+ *   import { getState } from '../src/modules/moduleState';
+ *   const state = getState();
+ *
+ * Operations are forwarded by the execution worker to the main thread, which
+ * owns the database (see StateStore).
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ModuleState, StateRequest } from '../types';
+import { scriptRoots } from './scriptRoots';
+
+type StateTransport = (moduleName: string, request: StateRequest) => Promise<any>;
+
+// Symbol the execution worker sets its state transport under. Kept on the
+// thread's global object rather than in this module, so scripts importing
+// another copy of this file (e.g. src/ while the server runs from dist/) still
+// reach it.
+const STATE_TRANSPORT = Symbol.for('dynamic-module.state-transport');
+
+/**
+ * Send the state operations of this thread's scripts through the given function
+ */
+export function setStateTransport(transport: StateTransport): void {
+  (globalThis as any)[STATE_TRANSPORT] = transport;
+}
+
+/**
+ * Module name a script's state is namespaced by, e.g. `farm.cow` for
+ * `farm/cow.ts`, so it follows the module across reloads and extension changes
+ */
+export function stateNameOf(modulePath: string): string {
+  const mountPath = scriptRoots.mountPath(modulePath) || path.basename(modulePath);
+  return mountPath
+    .slice(0, mountPath.length - path.extname(mountPath).length)
+    .split(path.sep)
+    .join('.');
+}
+
+/**
+ * The persistent key-value store of a module. Operations fail outside the
+ * execution workers, e.g. in top-level code while the main thread reads the
+ * script's functions.
+ */
+export function createModuleState(moduleName: string): ModuleState {
+  const send = (request: StateRequest): Promise<any> => {
+    const transport: StateTransport | undefined = (globalThis as any)[STATE_TRANSPORT];
+    if (!transport) {
+      return Promise.reject(
+        new Error('Module state is only available while running in an execution worker')
+      );
+    }
+    return transport(moduleName, request);
+  };
+
+  return {
+    get: (key) => send({ op: 'get', key }),
+    set: async (key, value, options = {}) => {
+      const json = JSON.stringify(value);
+      if (json === undefined) {
+        throw new TypeError(`Value of '${key}' is not JSON-serializable`);
+      }
+      await send({ op: 'set', key, value: json, ttlMs: options.ttlMs });
+    },
+    delete: (key) => send({ op: 'delete', key }),
+    list: (prefix) => send({ op: 'list', prefix }),
+  };
+}
+
+/**
+ * The persistent state of the script calling this function
+ */
+export function getState(): ModuleState {
+  const callerFile = findCallerFile();
+  if (!callerFile || !scriptRoots.contains(callerFile)) {
+    throw new Error('getState() must be called from a script in a script root');
+  }
+  return createModuleState(stateNameOf(callerFile));
+}
+
+/**
+ * File of the code that called getState(). ES module scripts report file URLs
+ * carrying their reload parameter.
+ */
+function findCallerFile(): string | null {
+  const originalPrepare = Error.prepareStackTrace;
+  const holder: { stack?: NodeJS.CallSite[] } = {};
+
+  try {
+    Error.prepareStackTrace = (_error, callSites) => callSites;
+    Error.captureStackTrace(holder, getState);
+    const fileName = holder.stack?.[0]?.getFileName();
+    if (!fileName) {
+      return null;
+    }
+    return fileName.startsWith('file:') ? fileURLToPath(fileName) : fileName;
+  } finally {
+    Error.prepareStackTrace = originalPrepare;
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * Worker thread entry point that executes module functions
+ */
+
+import { parentPort } from 'worker_threads';
+import {
+  LifecycleHook,
+  ModuleContext,
+  StateRequest,
+  WorkerRequest,
+  WorkerResponse,
+} from '../types';
+import { CONFIG } from '../utils/config';
+import { clearRequireCache, loadModuleExports } from './moduleLoader';
+import { createModuleState, setStateTransport, stateNameOf } from './moduleState';
+import { ValueSerializer } from './valueSerializer';
+
+if (!parentPort) {
+  throw new Error('moduleWorker must be started as a worker thread');
+}
+
+const port = parentPort;
+
+// Maximum number of values a generator may yield in one call
+const MAX_YIELDS = 1000;
+
+// Scripts loaded on this worker, by path, settling once their init() hook has run
+const loadedModules = new Map<string, Promise<any>>();
+
+// dispose() hooks still running, by path; the next load of the script waits for them
+const unloadingModules = new Map<string, Promise<void>>();
+
+// Module state operations waiting for the main thread, by request id
+const pendingStateRequests = new Map<
+  number,
+  { resolve: (result: any) => void; reject: (error: Error) => void }
+>();
+let nextStateRequestId = 1;
+
+// Class instances created on this worker, by name. The pool sends every call on
+// an instance to the worker that created it.
+const instances = new Map<string, any>();
+
+/**
+ * Check whether a return value is a generator or other iterator to be streamed.
+ * Arrays, strings and other iterables without their own next() are returned as is.
+ */
+function isIteratorResult(result: any): result is Iterator<any> | AsyncIterator<any> {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    typeof result.next === 'function' &&
+    (Symbol.asyncIterator in result || Symbol.iterator in result)
+  );
+}
+
+/**
+ * Post each value produced by an iterator, returning its final return value
+ */
+async function streamValues(
+  id: number,
+  iterator: Iterator<any> | AsyncIterator<any>
+): Promise<any> {
+  for (let count = 0; ; count++) {
+    const step = await iterator.next();
+    if (step.done) {
+      return step.value;
+    }
+
+    if (count >= MAX_YIELDS) {
+      await iterator.return?.();
+      throw new Error(`Function yielded more than ${MAX_YIELDS} values`);
+    }
+
+    const message: WorkerResponse = {
+      type: 'yield',
+      id,
+      result: String(step.value),
+      value: ValueSerializer.serialize(step.value),
+    };
+    port.postMessage(message);
+  }
+}
+
+/**
+ * Run a call and post its result, streaming the values of returned iterators
+ */
+async function respond(id: number, call: () => any): Promise<void> {
+  let response: WorkerResponse;
+
+  try {
+    let result = await call();
+    const streamed = isIteratorResult(result);
+    if (streamed) {
+      result = await streamValues(id, result);
+    }
+
+    response = {
+      type: 'result',
+      id,
+      result: String(result),
+      value: ValueSerializer.serialize(result),
+      streamed,
+    };
+  } catch (error) {
+    response = {
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  port.postMessage(response);
+}
+
+/**
+ * Send a module state operation to the main thread, which owns the database
+ */
+function requestState(moduleName: string, request: StateRequest): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const id = nextStateRequestId++;
+    pendingStateRequests.set(id, { resolve, reject });
+
+    const message: WorkerResponse = { type: 'state', id, module: moduleName, request };
+    port.postMessage(message);
+  });
+}
+
+setStateTransport(requestState);
+
+/**
+ * Context passed to a module's init() hook, with the same state getState() returns
+ */
+function createContext(modulePath: string): ModuleContext {
+  const moduleName = stateNameOf(modulePath);
+  return { module: moduleName, state: createModuleState(moduleName) };
+}
+
+/**
+ * Run a module's lifecycle hook, if it exports one, within LIFECYCLE_HOOK_TIMEOUT_MS
+ * and report the outcome to the pool
+ */
+async function runHook(
+  modulePath: string,
+  moduleExports: any,
+  hook: LifecycleHook,
+  ...args: any[]
+): Promise<any> {
+  if (typeof moduleExports[hook] !== 'function') {
+    return undefined;
+  }
+
+  const timeoutMs = CONFIG.LIFECYCLE_HOOK_TIMEOUT_MS;
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const result = await Promise.race([
+      Promise.resolve().then(() => moduleExports[hook](...args)),
+      new Promise((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+
+    const response: WorkerResponse = { type: 'hook', modulePath, hook };
+    port.postMessage(response);
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const response: WorkerResponse = { type: 'hook', modulePath, hook, error: message };
+    port.postMessage(response);
+    throw new Error(`${hook}() failed: ${message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Load a script and run its init() hook the first time it is used on this
+ * worker. A failed load or init() is tried again on the next use.
+ */
+function loadModule(modulePath: string): Promise<any> {
+  let loading = loadedModules.get(modulePath);
+  if (loading) {
+    return loading;
+  }
+
+  loading = (async () => {
+    await unloadingModules.get(modulePath);
+    const moduleExports = await loadModuleExports(modulePath);
+    await runHook(modulePath, moduleExports, 'init', createContext(modulePath));
+    return moduleExports;
+  })();
+  loadedModules.set(modulePath, loading);
+
+  loading.catch(() => {
+    if (loadedModules.get(modulePath) === loading) {
+      loadedModules.delete(modulePath);
+    }
+  });
+  return loading;
+}
+
+/**
+ * Drop a changed or deleted script, running the dispose() hook of the version
+ * that was loaded
+ */
+function unloadModule(modulePath: string): Promise<void> {
+  const loading = loadedModules.get(modulePath);
+  loadedModules.delete(modulePath);
+  clearRequireCache(modulePath);
+
+  if (!loading) {
+    return Promise.resolve();
+  }
+
+  const unloading = loading
+    .then(
+      (moduleExports) => runHook(modulePath, moduleExports, 'dispose'),
+      () => undefined
+    )
+    .catch(() => undefined)
+    .finally(() => {
+      if (unloadingModules.get(modulePath) === unloading) {
+        unloadingModules.delete(modulePath);
+      }
+    });
+  unloadingModules.set(modulePath, unloading);
+  return unloading;
+}
+
+/**
+ * Load the target module and run the requested function
+ */
+async function execute(request: Extract<WorkerRequest, { type: 'execute' }>): Promise<any> {
+  const moduleExports = await loadModule(request.modulePath);
+  const targetFunction = moduleExports[request.functionName];
+
+  if (typeof targetFunction !== 'function') {
+    throw new Error(`Function '${request.functionName}' not found in ${request.modulePath}`);
+  }
+
+  return targetFunction.apply(null, request.args);
+}
+
+/**
+ * Load the class an instance is created from
+ */
+async function loadClass(modulePath: string, exportName: string): Promise<any> {
+  const moduleExports = await loadModule(modulePath);
+  const targetClass = moduleExports[exportName];
+
+  if (typeof targetClass !== 'function') {
+    throw new Error(`Class '${exportName}' not found in ${modulePath}`);
+  }
+  return targetClass;
+}
+
+/**
+ * Find a live instance on this worker
+ */
+function getInstance(instanceName: string): any {
+  if (!instances.has(instanceName)) {
+    throw new Error(`Instance '${instanceName}' not found`);
+  }
+  return instances.get(instanceName);
+}
+
+/**
+ * Create a named instance of a module's class, returning its name
+ */
+async function construct(request: Extract<WorkerRequest, { type: 'construct' }>): Promise<any> {
+  if (instances.has(request.instanceName)) {
+    throw new Error(`Instance '${request.instanceName}' already exists`);
+  }
+
+  const targetClass = await loadClass(request.modulePath, request.exportName);
+  instances.set(request.instanceName, new targetClass(...request.args));
+  return request.instanceName;
+}
+
+/**
+ * Call a method of a live instance
+ */
+async function invoke(request: Extract<WorkerRequest, { type: 'invoke' }>): Promise<any> {
+  const instance = getInstance(request.instanceName);
+  const method = instance[request.methodName];
+
+  if (typeof method !== 'function') {
+    throw new Error(
+      `Method '${request.methodName}' not found on instance '${request.instanceName}'`
+    );
+  }
+
+  return method.apply(instance, request.args);
+}
+
+/**
+ * Move an instance to the reloaded version of its class. Its own properties are
+ * kept, so state survives and the new methods apply from the next call.
+ */
+async function upgrade(request: Extract<WorkerRequest, { type: 'upgrade' }>): Promise<any> {
+  const instance = getInstance(request.instanceName);
+  const targetClass = await loadClass(request.modulePath, request.exportName);
+  Object.setPrototypeOf(instance, targetClass.prototype);
+}
+
+/**
+ * Run an instance's own dispose() method, if any, and forget the instance. It is
+ * forgotten even when dispose() throws.
+ */
+async function dispose(request: Extract<WorkerRequest, { type: 'dispose' }>): Promise<any> {
+  const instance = getInstance(request.instanceName);
+  instances.delete(request.instanceName);
+
+  if (typeof instance.dispose === 'function') {
+    await instance.dispose();
+  }
+}
+
+port.on('message', (request: WorkerRequest) => {
+  switch (request.type) {
+    case 'execute':
+      respond(request.id, () => execute(request));
+      break;
+
+    case 'construct':
+      respond(request.id, () => construct(request));
+      break;
+
+    case 'invoke':
+      respond(request.id, () => invoke(request));
+      break;
+
+    case 'upgrade':
+      respond(request.id, () => upgrade(request));
+      break;
+
+    case 'dispose':
+      respond(request.id, () => dispose(request));
+      break;
+
+    case 'health':
+      respond(request.id, async () =>
+        runHook(request.modulePath, await loadModule(request.modulePath), 'health')
+      );
+      break;
+
+    case 'state': {
+      const pending = pendingStateRequests.get(request.id);
+      pendingStateRequests.delete(request.id);
+      if (request.error !== undefined) {
+        pending?.reject(new Error(request.error));
+      } else {
+        pending?.resolve(request.result);
+      }
+      break;
+    }
+
+    case 'invalidate':
+      request.paths.forEach((modulePath) => unloadModule(modulePath));
+      break;
+
+    case 'preload':
+      // Failures reach the pool as hook reports or surface on the next call
+      loadModule(request.modulePath).catch(() => undefined);
+      break;
+
+    case 'shutdown':
+      Promise.all(Array.from(loadedModules.keys()).map((modulePath) => unloadModule(modulePath)))
+        .then(() => Promise.all(unloadingModules.values()))
+        .then(() => {
+          const response: WorkerResponse = { type: 'shutdown' };
+          port.postMessage(response);
+        });
+      break;
+  }
+});
+
+// Tell the pool that bootstrapping finished and calls can be dispatched
+const ready: WorkerResponse = { type: 'ready' };
+port.postMessage(ready);
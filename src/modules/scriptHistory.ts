@@ -0,0 +1,95 @@
+/**
+ * Version history of script files: snapshots saved in SQLite whenever a module
+ * is loaded or changes, diffs between snapshots and rollback
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ScriptVersion, ScriptVersionDiff } from '../types';
+import { logger } from '../utils/logger';
+import { TextDiff } from '../utils/textDiff';
+import { dbManager } from '../database/sqlite';
+import { scriptRoots } from './scriptRoots';
+
+export class ScriptHistory {
+  /**
+   * Save the current content of a module's file if it differs from the latest snapshot
+   */
+  static async record(moduleName: string, filePath: string): Promise<void> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const id = await dbManager.saveScriptVersion(
+      moduleName,
+      scriptRoots.mountPath(filePath)!,
+      content,
+      crypto.createHash('sha256').update(content).digest('hex')
+    );
+
+    if (id !== null) {
+      logger.info(`Saved version ${id} of module ${moduleName}`);
+    }
+  }
+
+  /**
+   * List a module's saved versions, newest first
+   */
+  static async list(moduleName: string): Promise<ScriptVersion[]> {
+    return dbManager.getScriptVersions(moduleName);
+  }
+
+  /**
+   * Get a saved version with its content
+   */
+  static async get(moduleName: string, id: number): Promise<ScriptVersion | null> {
+    return dbManager.getScriptVersion(moduleName, id);
+  }
+
+  /**
+   * Diff two saved versions of a module. Resolves to null when either is missing.
+   */
+  static async diff(
+    moduleName: string,
+    from: number,
+    to: number
+  ): Promise<ScriptVersionDiff | null> {
+    const [before, after] = await Promise.all([
+      this.get(moduleName, from),
+      this.get(moduleName, to),
+    ]);
+    if (!before || !after) {
+      return null;
+    }
+
+    const result = TextDiff.unified(
+      before.content || '',
+      after.content || '',
+      `${before.file_path} (version ${from})`,
+      `${after.file_path} (version ${to})`
+    );
+    return { module: moduleName, from, to, ...result };
+  }
+
+  /**
+   * Restore a module's file to a saved version. The file watcher then reloads
+   * the module and records the restored content as a new version.
+   * Resolves to null when the version does not exist; throws ReadOnlyRootError
+   * when the file belongs to a read-only script root.
+   */
+  static async rollback(moduleName: string, id: number): Promise<ScriptVersion | null> {
+    const version = await this.get(moduleName, id);
+    if (!version) {
+      return null;
+    }
+
+    const filePath = scriptRoots.writablePath(version.file_path);
+    if (scriptRoots.mountPath(filePath) !== path.normalize(version.file_path)) {
+      throw new Error(`Refusing to write outside the script roots: ${version.file_path}`);
+    }
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, version.content || '', 'utf8');
+    logger.info(`Rolled back module ${moduleName} to version ${id}`);
+
+    return version;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * The configured script directories and the namespaces they are mounted under.
+ * Script files are identified by their mount path: the namespace parts followed
+ * by the path below the root, so `shared=../lib` maps `../lib/math.ts` to
+ * `shared/math.ts` and a root without a namespace keeps plain relative paths.
+ * As with file system mounts, the most specific mount point takes precedence.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ScriptRoot } from '../types';
+import { CONFIG } from '../utils/config';
+
+/**
+ * Thrown when a change would write to a read-only script root
+ */
+export class ReadOnlyRootError extends Error {
+  constructor(public readonly root: ScriptRoot) {
+    super(`Script root ${root.name} is read-only`);
+    this.name = 'ReadOnlyRootError';
+  }
+}
+
+export class ScriptRoots {
+  constructor(public readonly roots: ScriptRoot[]) {}
+
+  /**
+   * The root a file lies in, or null when it is outside every root
+   */
+  public rootOf(filePath: string): ScriptRoot | null {
+    return this.roots.find((root) => this.isWithin(filePath, root.dir)) || null;
+  }
+
+  /**
+   * Scripts are files below a script root that are not installed packages
+   */
+  public contains(filePath: string): boolean {
+    return this.rootOf(filePath) !== null && !filePath.split(path.sep).includes('node_modules');
+  }
+
+  /**
+   * Mount path of a file or directory in a root, or null when it is outside every root
+   */
+  public mountPath(filePath: string): string | null {
+    const root = this.rootOf(path.resolve(filePath));
+    if (!root) {
+      return null;
+    }
+
+    return path.join(...this.namespaceParts(root), path.relative(root.dir, path.resolve(filePath)));
+  }
+
+  /**
+   * Files a mount path may refer to, one per root mounted above it: the longest
+   * namespace first, then in root order
+   */
+  public candidates(mountPath: string): { root: ScriptRoot; filePath: string }[] {
+    const parts = mountPath.split(path.sep).filter((part) => part !== '' && part !== '.');
+
+    return this.roots
+      .filter((root) => {
+        const namespace = this.namespaceParts(root);
+        return (
+          parts.length > namespace.length && namespace.every((part, index) => parts[index] === part)
+        );
+      })
+      .sort((a, b) => this.namespaceParts(b).length - this.namespaceParts(a).length)
+      .map((root) => ({
+        root,
+        filePath: path.join(root.dir, ...parts.slice(this.namespaceParts(root).length)),
+      }));
+  }
+
+  /**
+   * The existing file a mount path refers to, in the first candidate root that has it
+   */
+  public resolve(mountPath: string): string | null {
+    const found = this.candidates(mountPath).find(({ filePath }) => fs.existsSync(filePath));
+    return found ? found.filePath : null;
+  }
+
+  /**
+   * File to write for a mount path: the existing file, otherwise the path in the
+   * first writable candidate root. Throws ReadOnlyRootError when the file
+   * exists in a read-only root or no writable root is mounted above the path.
+   */
+  public writablePath(mountPath: string): string {
+    const candidates = this.candidates(mountPath);
+    const existing = candidates.find(({ filePath }) => fs.existsSync(filePath));
+    const target = existing || candidates.find(({ root }) => !root.readOnly);
+
+    if (!target || target.root.readOnly) {
+      throw new ReadOnlyRootError((existing || candidates[0] || { root: this.roots[0] }).root);
+    }
+    return target.filePath;
+  }
+
+  /**
+   * Namespace parts a root is mounted under
+   */
+  public namespaceParts(root: ScriptRoot): string[] {
+    return root.namespace ? root.namespace.split('.') : [];
+  }
+
+  /**
+   * Check whether a file is the given directory or lies below it
+   */
+  private isWithin(filePath: string, dir: string): boolean {
+    const relative = path.relative(dir, filePath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+}
+
+export const scriptRoots = new ScriptRoots(CONFIG.SCRIPT_ROOTS);
@@ -0,0 +1,119 @@
+/**
+ * Persistent key-value state of modules, kept in SQLite so that it survives hot
+ * reloads and restarts. Scripts reach it by calling getState() (see
+ * moduleState.ts); the execution workers forward each operation to the main
+ * thread, which owns the database connection.
+ */
+
+import { StateEntry, StateRequest, StateRow } from '../types';
+import { CONFIG } from '../utils/config';
+import { dbManager } from '../database/sqlite';
+
+// Longest key a module may use
+const MAX_KEY_LENGTH = 256;
+
+/**
+ * Raised when a state operation is invalid, e.g. an empty key or a value that
+ * is too large
+ */
+export class StateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateError';
+  }
+}
+
+export class StateStore {
+  /**
+   * Get the value stored under a key, or undefined when there is none or it expired
+   */
+  static async get(moduleName: string, key: string): Promise<any> {
+    this.validateKey(key);
+    const row = await dbManager.getStateEntry(moduleName, key);
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  /**
+   * Store a JSON value under a key, expiring after ttlMs when given
+   */
+  static async set(moduleName: string, key: string, value: string, ttlMs?: number): Promise<void> {
+    this.validateKey(key);
+    if (Buffer.byteLength(value) > CONFIG.MAX_STATE_VALUE_BYTES) {
+      throw new StateError(
+        `Value of '${key}' exceeds the limit of ${CONFIG.MAX_STATE_VALUE_BYTES} bytes`
+      );
+    }
+    if (ttlMs !== undefined && !(Number.isFinite(ttlMs) && ttlMs > 0)) {
+      throw new StateError('ttlMs must be a positive number of milliseconds');
+    }
+
+    await dbManager.setStateEntry(
+      moduleName,
+      key,
+      value,
+      ttlMs === undefined ? null : Date.now() + ttlMs
+    );
+  }
+
+  /**
+   * Delete a key. Resolves to false when it did not exist.
+   */
+  static async delete(moduleName: string, key: string): Promise<boolean> {
+    this.validateKey(key);
+    return dbManager.deleteStateEntry(moduleName, key);
+  }
+
+  /**
+   * List a module's entries ordered by key, optionally only keys starting with a prefix
+   */
+  static async list(moduleName: string, prefix: string = ''): Promise<StateEntry[]> {
+    const rows = await dbManager.listStateEntries(moduleName, String(prefix));
+    return rows.map((row) => this.toEntry(row));
+  }
+
+  /**
+   * Delete all entries of a module. Resolves to the number of deleted entries.
+   */
+  static async clear(moduleName: string): Promise<number> {
+    return dbManager.clearState(moduleName);
+  }
+
+  /**
+   * Run an operation sent by an execution worker on behalf of a module
+   */
+  static async handle(moduleName: string, request: StateRequest): Promise<any> {
+    switch (request.op) {
+      case 'get':
+        return this.get(moduleName, request.key);
+      case 'set':
+        return this.set(moduleName, request.key, request.value, request.ttlMs);
+      case 'delete':
+        return this.delete(moduleName, request.key);
+      case 'list':
+        return this.list(moduleName, request.prefix);
+    }
+  }
+
+  /**
+   * Keys are non-empty strings of at most MAX_KEY_LENGTH characters
+   */
+  private static validateKey(key: string): void {
+    if (typeof key !== 'string' || key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      throw new StateError(
+        `State keys must be non-empty strings of at most ${MAX_KEY_LENGTH} characters`
+      );
+    }
+  }
+
+  /**
+   * Convert a database row to the entry returned to scripts and API clients
+   */
+  private static toEntry(row: StateRow): StateEntry {
+    return {
+      key: row.key,
+      value: JSON.parse(row.value),
+      expiresAt: row.expires_at === null ? null : new Date(row.expires_at).toISOString(),
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Optional compile-time type checking of scripts with the TypeScript compiler.
+ * ts-node only transpiles scripts, so type errors are otherwise never reported.
+ */
+
+import path from 'path';
+import * as ts from 'typescript';
+import { TypeDiagnostic } from '../types';
+import { ScriptRoots } from './scriptRoots';
+
+// Matches the ts-node settings scripts are transpiled with, plus type checking
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  strict: true,
+  noImplicitAny: false,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+/**
+ * Thrown instead of loading a module when type checking runs in block mode
+ */
+export class TypeCheckError extends Error {
+  constructor(public readonly diagnostics: TypeDiagnostic[]) {
+    super(
+      `Type check failed with ${diagnostics.length} error${diagnostics.length === 1 ? '' : 's'}:\n` +
+        diagnostics
+          .map((d) => `${d.file}(${d.line},${d.column}): error TS${d.code}: ${d.message}`)
+          .join('\n')
+    );
+    this.name = 'TypeCheckError';
+  }
+}
+
+export class TypeChecker {
+  // Library and @types declarations never change while the server runs
+  private static readonly declarationFiles = new Map<string, ts.SourceFile>();
+
+  /**
+   * Type check a script and the scripts it imports. Returns the errors found in
+   * scripts, with their mount paths. JavaScript files are not checked.
+   */
+  static check(modulePath: string, roots: ScriptRoots): TypeDiagnostic[] {
+    if (!['.ts', '.mts'].includes(path.extname(modulePath))) {
+      return [];
+    }
+
+    const program = ts.createProgram([modulePath], COMPILER_OPTIONS, this.createHost());
+
+    return ts
+      .getPreEmitDiagnostics(program)
+      .filter(
+        (diagnostic) => diagnostic.file && roots.contains(path.resolve(diagnostic.file.fileName))
+      )
+      .map((diagnostic) =>
+        this.toTypeDiagnostic(diagnostic, roots.mountPath(diagnostic.file!.fileName)!)
+      );
+  }
+
+  /**
+   * Report syntax errors in source code without reading any other file
+   */
+  static checkSyntax(source: string, fileName: string): TypeDiagnostic[] {
+    const { diagnostics = [] } = ts.transpileModule(source, {
+      compilerOptions: { target: COMPILER_OPTIONS.target, module: COMPILER_OPTIONS.module },
+      fileName,
+      reportDiagnostics: true,
+    });
+
+    return diagnostics.map((diagnostic) => this.toTypeDiagnostic(diagnostic, fileName));
+  }
+
+  /**
+   * Convert a compiler diagnostic with 1-based line and column numbers
+   */
+  private static toTypeDiagnostic(diagnostic: ts.Diagnostic, file: string): TypeDiagnostic {
+    const position = diagnostic.file
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start || 0)
+      : { line: 0, character: 0 };
+
+    return {
+      file,
+      line: position.line + 1,
+      column: position.character + 1,
+      code: diagnostic.code,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    };
+  }
+
+  /**
+   * Compiler host that reads scripts from disk on every check but parses
+   * installed declaration files only once
+   */
+  private static createHost(): ts.CompilerHost {
+    const host = ts.createCompilerHost(COMPILER_OPTIONS);
+    const readSourceFile = host.getSourceFile.bind(host);
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      if (!fileName.split(/[\\/]/).includes('node_modules')) {
+        return readSourceFile(fileName, languageVersion, onError, shouldCreateNewSourceFile);
+      }
+
+      let sourceFile = this.declarationFiles.get(fileName);
+      if (!sourceFile) {
+        sourceFile = readSourceFile(fileName, languageVersion, onError, shouldCreateNewSourceFile);
+        if (sourceFile) {
+          this.declarationFiles.set(fileName, sourceFile);
+        }
+      }
+      return sourceFile;
+    };
+
+    return host;
+  }
+}
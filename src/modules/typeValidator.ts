@@ -0,0 +1,290 @@
+/**
+ * Runtime checking of call arguments against declared TypeScript parameter types
+ */
+
+import * as ts from 'typescript';
+
+export class TypeValidator {
+  private static readonly parsedTypes = new Map<string, ts.TypeNode | null>();
+
+  /**
+   * Check whether a value is assignable to a declared type. Types that cannot be
+   * checked at runtime (type parameters, interfaces, imported names) are accepted.
+   */
+  static matches(value: any, typeText: string): boolean {
+    const typeNode = this.parse(typeText);
+    return typeNode ? this.matchesNode(value, typeNode) : true;
+  }
+
+  /**
+   * Render a value for error messages
+   */
+  static describeValue(value: any): string {
+    if (value === undefined) {
+      return 'undefined';
+    }
+
+    const json = JSON.stringify(value);
+    const text = json.length > 50 ? `${json.substring(0, 47)}...` : json;
+    const kind = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    return `${text} (${kind})`;
+  }
+
+  /**
+   * Parse a type annotation into a type node, caching the result
+   */
+  private static parse(typeText: string): ts.TypeNode | null {
+    if (this.parsedTypes.has(typeText)) {
+      return this.parsedTypes.get(typeText)!;
+    }
+
+    const sourceFile = ts.createSourceFile(
+      'type.ts',
+      `type __Checked = ${typeText};`,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TS
+    );
+    const statement = sourceFile.statements[0];
+    const typeNode =
+      statement && ts.isTypeAliasDeclaration(statement) && sourceFile.statements.length === 1
+        ? statement.type
+        : null;
+
+    this.parsedTypes.set(typeText, typeNode);
+    return typeNode;
+  }
+
+  /**
+   * Check a value against a parsed type node
+   */
+  private static matchesNode(value: any, node: ts.TypeNode): boolean {
+    switch (node.kind) {
+      case ts.SyntaxKind.AnyKeyword:
+      case ts.SyntaxKind.UnknownKeyword:
+        return true;
+      case ts.SyntaxKind.StringKeyword:
+        return typeof value === 'string';
+      case ts.SyntaxKind.NumberKeyword:
+        return typeof value === 'number' && isFinite(value);
+      case ts.SyntaxKind.BooleanKeyword:
+        return typeof value === 'boolean';
+      case ts.SyntaxKind.UndefinedKeyword:
+      case ts.SyntaxKind.VoidKeyword:
+        return value === undefined;
+      case ts.SyntaxKind.ObjectKeyword:
+        return typeof value === 'object' && value !== null;
+      case ts.SyntaxKind.NeverKeyword:
+        return false;
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.matchesNode(value, node.type);
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+      return this.matchesLiteral(value, node.literal);
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+      return node.types.some((member) => this.matchesNode(value, member));
+    }
+
+    if (ts.isIntersectionTypeNode(node)) {
+      return node.types.every((member) => this.matchesNode(value, member));
+    }
+
+    if (ts.isArrayTypeNode(node)) {
+      return (
+        Array.isArray(value) && value.every((item) => this.matchesNode(item, node.elementType))
+      );
+    }
+
+    if (ts.isTypeOperatorNode(node) && node.operator === ts.SyntaxKind.ReadonlyKeyword) {
+      return this.matchesNode(value, node.type);
+    }
+
+    if (ts.isTupleTypeNode(node)) {
+      return this.matchesTuple(value, node);
+    }
+
+    if (ts.isTypeLiteralNode(node)) {
+      return this.matchesShape(value, node);
+    }
+
+    if (ts.isTemplateLiteralTypeNode(node)) {
+      return typeof value === 'string';
+    }
+
+    if (ts.isTypeReferenceNode(node)) {
+      return this.matchesReference(value, node);
+    }
+
+    if (ts.isFunctionTypeNode(node) || ts.isConstructorTypeNode(node)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check a value against a string, number, boolean or null literal type
+   */
+  private static matchesLiteral(value: any, literal: ts.LiteralTypeNode['literal']): boolean {
+    switch (literal.kind) {
+      case ts.SyntaxKind.NullKeyword:
+        return value === null;
+      case ts.SyntaxKind.TrueKeyword:
+        return value === true;
+      case ts.SyntaxKind.FalseKeyword:
+        return value === false;
+      case ts.SyntaxKind.StringLiteral:
+      case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+        return value === (literal as ts.StringLiteral).text;
+      case ts.SyntaxKind.NumericLiteral:
+        return value === Number((literal as ts.NumericLiteral).text);
+      case ts.SyntaxKind.PrefixUnaryExpression: {
+        const prefix = literal as ts.PrefixUnaryExpression;
+        if (prefix.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(prefix.operand)) {
+          return value === -Number(prefix.operand.text);
+        }
+        return true;
+      }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Check an array against a tuple type, honouring optional and rest elements
+   */
+  private static matchesTuple(value: any, node: ts.TupleTypeNode): boolean {
+    if (!Array.isArray(value)) {
+      return false;
+    }
+
+    let index = 0;
+    for (const element of node.elements) {
+      if (ts.isRestTypeNode(element)) {
+        const rest = value.slice(index);
+        return ts.isArrayTypeNode(element.type)
+          ? rest.every((item) =>
+              this.matchesNode(item, (element.type as ts.ArrayTypeNode).elementType)
+            )
+          : true;
+      }
+
+      const member = ts.isNamedTupleMember(element) ? element : null;
+      const memberType = member ? member.type : element;
+      const optional = member ? !!member.questionToken : ts.isOptionalTypeNode(element);
+      const elementType = ts.isOptionalTypeNode(memberType) ? memberType.type : memberType;
+
+      if (index >= value.length) {
+        if (!optional) {
+          return false;
+        }
+      } else if (!this.matchesNode(value[index], elementType)) {
+        return false;
+      }
+      index++;
+    }
+
+    return value.length <= index;
+  }
+
+  /**
+   * Check an object against an inline object type
+   */
+  private static matchesShape(value: any, node: ts.TypeLiteralNode): boolean {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return false;
+    }
+
+    const knownKeys = new Set<string>();
+
+    for (const member of node.members) {
+      if (
+        ts.isPropertySignature(member) &&
+        member.name &&
+        !ts.isComputedPropertyName(member.name)
+      ) {
+        const key = member.name.text;
+        knownKeys.add(key);
+
+        if (value[key] === undefined) {
+          if (!member.questionToken) {
+            return false;
+          }
+        } else if (member.type && !this.matchesNode(value[key], member.type)) {
+          return false;
+        }
+      }
+    }
+
+    const indexSignature = node.members.find(ts.isIndexSignatureDeclaration);
+    if (indexSignature) {
+      return Object.keys(value)
+        .filter((key) => !knownKeys.has(key))
+        .every((key) => this.matchesNode(value[key], indexSignature.type));
+    }
+
+    return true;
+  }
+
+  /**
+   * Check a value against a built-in generic or wrapper type
+   */
+  private static matchesReference(value: any, node: ts.TypeReferenceNode): boolean {
+    const name = node.typeName.getText();
+    const typeArgs: readonly ts.TypeNode[] = node.typeArguments || [];
+
+    switch (name) {
+      case 'Array':
+      case 'ReadonlyArray':
+        return (
+          Array.isArray(value) &&
+          (typeArgs.length === 0 || value.every((item) => this.matchesNode(item, typeArgs[0])))
+        );
+      case 'Record':
+        return this.matchesRecord(value, typeArgs[0], typeArgs[1]);
+      case 'Partial':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'String':
+        return typeof value === 'string';
+      case 'Number':
+        return typeof value === 'number';
+      case 'Boolean':
+        return typeof value === 'boolean';
+      case 'Object':
+        return value !== null && value !== undefined;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Check an object against Record<K, V>
+   */
+  private static matchesRecord(
+    value: any,
+    keyType: ts.TypeNode | undefined,
+    valueType: ts.TypeNode | undefined
+  ): boolean {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return false;
+    }
+
+    return Object.keys(value).every(
+      (key) =>
+        (!keyType || this.matchesNode(key, keyType) || this.matchesNumericKey(key, keyType)) &&
+        (!valueType || this.matchesNode(value[key], valueType))
+    );
+  }
+
+  /**
+   * Object keys are always strings, so numeric key types accept numeric strings
+   */
+  private static matchesNumericKey(key: string, keyType: ts.TypeNode): boolean {
+    return key.trim() !== '' && !isNaN(Number(key)) && this.matchesNode(Number(key), keyType);
+  }
+}
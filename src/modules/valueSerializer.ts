@@ -0,0 +1,234 @@
+/**
+ * Converts function return values into JSON-safe trees that keep their type
+ * information (Dates, Maps, Sets, BigInt, undefined, errors, ...), and those
+ * trees back into values for calls that take another call's result
+ */
+
+import { SerializedProperty, SerializedValue } from '../types';
+
+// Nesting below this depth is replaced by a truncation marker
+const MAX_DEPTH = 8;
+
+// Maximum number of items kept from a single array, object, Map or Set
+const MAX_ITEMS = 100;
+
+// Maximum number of values serialized for one result
+const MAX_NODES = 2000;
+
+// Strings longer than this are cut off
+const MAX_STRING_LENGTH = 10000;
+
+export class ValueSerializer {
+  private nodes: number = 0;
+  private readonly ancestors: object[] = [];
+
+  /**
+   * Serialize a value returned by a module function
+   */
+  static serialize(value: any): SerializedValue {
+    return new ValueSerializer().serializeValue(value, 0);
+  }
+
+  /**
+   * Rebuild the value a serialized tree was made from. Throws a TypeError for
+   * values that cannot be rebuilt: functions, symbols, circular references and
+   * anything truncated.
+   */
+  static deserialize(value: SerializedValue): any {
+    switch (value.type) {
+      case 'undefined':
+        return undefined;
+      case 'null':
+        return null;
+      case 'boolean':
+        return value.value;
+      case 'number':
+        return Number(value.value);
+      case 'bigint':
+        return BigInt(value.value);
+      case 'string':
+        if (value.truncated) {
+          throw new TypeError('string is too long');
+        }
+        return value.value;
+      case 'date':
+        return new Date(value.value);
+      case 'regexp': {
+        const lastSlash = value.value.lastIndexOf('/');
+        return new RegExp(value.value.slice(1, lastSlash), value.value.slice(lastSlash + 1));
+      }
+      case 'error':
+        return Object.assign(new Error(value.message), { name: value.name });
+    }
+
+    if ('omitted' in value && value.omitted) {
+      throw new TypeError(`${value.type} has too many items`);
+    }
+
+    switch (value.type) {
+      case 'array':
+        return value.items.map((item) => ValueSerializer.deserialize(item));
+      case 'set':
+        return new Set(value.items.map((item) => ValueSerializer.deserialize(item)));
+      case 'map':
+        return new Map(
+          value.entries.map((entry) => [
+            ValueSerializer.deserialize(entry.key),
+            ValueSerializer.deserialize(entry.value),
+          ])
+        );
+      case 'object':
+        return Object.fromEntries(
+          value.properties.map((property) => [
+            property.key,
+            ValueSerializer.deserialize(property.value),
+          ])
+        );
+      case 'function':
+        throw new TypeError(`function ${value.name} cannot be passed on`);
+      case 'symbol':
+        throw new TypeError('symbols cannot be passed on');
+      case 'circular':
+        throw new TypeError('circular references cannot be passed on');
+      case 'truncated':
+        throw new TypeError(
+          value.reason === 'depth' ? 'value is nested too deeply' : 'value is too large'
+        );
+    }
+  }
+
+  /**
+   * Serialize a single value at the given nesting depth
+   */
+  private serializeValue(value: any, depth: number): SerializedValue {
+    if (++this.nodes > MAX_NODES) {
+      return { type: 'truncated', reason: 'size' };
+    }
+
+    switch (typeof value) {
+      case 'undefined':
+        return { type: 'undefined' };
+      case 'boolean':
+        return { type: 'boolean', value };
+      case 'number':
+        return { type: 'number', value: isFinite(value) ? value : String(value) };
+      case 'bigint':
+        return { type: 'bigint', value: value.toString() };
+      case 'string':
+        return value.length > MAX_STRING_LENGTH
+          ? { type: 'string', value: value.substring(0, MAX_STRING_LENGTH), truncated: true }
+          : { type: 'string', value };
+      case 'symbol':
+        return { type: 'symbol', description: value.description || '' };
+      case 'function':
+        return { type: 'function', name: value.name || '(anonymous)' };
+    }
+
+    if (value === null) {
+      return { type: 'null' };
+    }
+
+    if (value instanceof Date) {
+      return { type: 'date', value: isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString() };
+    }
+
+    if (value instanceof RegExp) {
+      return { type: 'regexp', value: String(value) };
+    }
+
+    if (this.ancestors.includes(value)) {
+      return { type: 'circular' };
+    }
+
+    if (depth >= MAX_DEPTH) {
+      return { type: 'truncated', reason: 'depth' };
+    }
+
+    this.ancestors.push(value);
+    try {
+      return this.serializeContainer(value, depth + 1);
+    } finally {
+      this.ancestors.pop();
+    }
+  }
+
+  /**
+   * Serialize errors, arrays, Maps, Sets and plain or class-based objects
+   */
+  private serializeContainer(value: object, depth: number): SerializedValue {
+    if (value instanceof Error) {
+      return {
+        type: 'error',
+        name: value.name,
+        message: value.message,
+        ...(value.stack ? { stack: value.stack } : {}),
+      };
+    }
+
+    if (Array.isArray(value)) {
+      return {
+        type: 'array',
+        items: value.slice(0, MAX_ITEMS).map((item) => this.serializeValue(item, depth)),
+        ...this.countOmitted(value.length),
+      };
+    }
+
+    if (value instanceof Map) {
+      const entries = Array.from(value.entries()).slice(0, MAX_ITEMS);
+      return {
+        type: 'map',
+        entries: entries.map(([key, item]) => ({
+          key: this.serializeValue(key, depth),
+          value: this.serializeValue(item, depth),
+        })),
+        ...this.countOmitted(value.size),
+      };
+    }
+
+    if (value instanceof Set) {
+      return {
+        type: 'set',
+        items: Array.from(value)
+          .slice(0, MAX_ITEMS)
+          .map((item) => this.serializeValue(item, depth)),
+        ...this.countOmitted(value.size),
+      };
+    }
+
+    const keys = Object.keys(value);
+    const properties: SerializedProperty[] = keys.slice(0, MAX_ITEMS).map((key) => ({
+      key,
+      value: this.readProperty(value, key, depth),
+    }));
+
+    const className = value.constructor?.name;
+    return {
+      type: 'object',
+      ...(className && className !== 'Object' ? { className } : {}),
+      properties,
+      ...this.countOmitted(keys.length),
+    };
+  }
+
+  /**
+   * Read and serialize an object property, reporting getters that throw as errors
+   */
+  private readProperty(value: any, key: string, depth: number): SerializedValue {
+    try {
+      return this.serializeValue(value[key], depth);
+    } catch (error) {
+      return {
+        type: 'error',
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Report how many items were left out of a collection
+   */
+  private countOmitted(size: number): { omitted?: number } {
+    return size > MAX_ITEMS ? { omitted: size - MAX_ITEMS } : {};
+  }
+}
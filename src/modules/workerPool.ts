@@ -0,0 +1,777 @@
+/**
+ * Pool of worker threads that execute module functions in isolation
+ */
+
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { EventLoopUtilization } from 'perf_hooks';
+import {
+  ExecutionErrorCode,
+  ExecutionLimits,
+  HookFailure,
+  LifecycleHook,
+  SerializedValue,
+  WorkerRequest,
+  WorkerResponse,
+} from '../types';
+import { CONFIG } from '../utils/config';
+import { logger } from '../utils/logger';
+import { StateStore } from './stateStore';
+
+// How often CPU usage of a running call is sampled
+const CPU_SAMPLE_INTERVAL = 50;
+
+// Time a retiring worker gets on top of LIFECYCLE_HOOK_TIMEOUT_MS to report it has shut down
+const SHUTDOWN_GRACE_MS = 500;
+
+/**
+ * Raised when a function call exceeds one of its resource limits
+ */
+export class ExecutionLimitError extends Error {
+  constructor(
+    public readonly code: ExecutionErrorCode,
+    public readonly limit: keyof ExecutionLimits,
+    public readonly value: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ExecutionLimitError';
+  }
+}
+
+/**
+ * Raised when a function call exceeds its wall-time limit
+ */
+export class ExecutionTimeoutError extends ExecutionLimitError {
+  constructor(timeoutMs: number) {
+    super(
+      'EXECUTION_TIMEOUT',
+      'timeoutMs',
+      timeoutMs,
+      `Function execution timed out after ${timeoutMs}ms`
+    );
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+/**
+ * Raised when a function call keeps its worker busy longer than its CPU limit
+ */
+export class CpuLimitError extends ExecutionLimitError {
+  constructor(maxCpuMs: number) {
+    super(
+      'CPU_LIMIT_EXCEEDED',
+      'maxCpuMs',
+      maxCpuMs,
+      `Function exceeded its CPU time limit of ${maxCpuMs}ms`
+    );
+    this.name = 'CpuLimitError';
+  }
+}
+
+/**
+ * Raised when a function call runs its worker out of heap
+ */
+export class MemoryLimitError extends ExecutionLimitError {
+  constructor(maxHeapMb: number) {
+    super(
+      'MEMORY_LIMIT_EXCEEDED',
+      'maxHeapMb',
+      maxHeapMb,
+      `Function exceeded its memory limit of ${maxHeapMb}MB`
+    );
+    this.name = 'MemoryLimitError';
+  }
+}
+
+/**
+ * Raised when a function throws or its worker dies while running it
+ */
+export class ExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExecutionError';
+  }
+}
+
+/**
+ * Return value of a call as text and in its serialized form
+ */
+export interface ExecutionResult {
+  text: string;
+  value: SerializedValue;
+}
+
+/**
+ * Raised when the caller aborts a queued or running call
+ */
+export class ExecutionCancelledError extends ExecutionError {
+  constructor() {
+    super('Execution cancelled');
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+/**
+ * Raised when a call targets an instance that was lost with the worker holding
+ * it, e.g. because one of its calls timed out or the worker crashed
+ */
+export class InstanceLostError extends ExecutionError {
+  constructor(
+    public readonly instanceName: string,
+    reason?: string
+  ) {
+    super(`Instance '${instanceName}' was lost with its worker${reason ? `: ${reason}` : ''}`);
+    this.name = 'InstanceLostError';
+  }
+}
+
+/**
+ * Optional hooks for a call: `onYield` receives values streamed by generator
+ * functions as they arrive, and aborting `signal` cancels the call
+ */
+export interface ExecutionOptions {
+  onYield?: (item: ExecutionResult) => void;
+  signal?: AbortSignal;
+}
+
+// Worker requests that are answered with a result or an error, without their id
+type CallRequest = Exclude<
+  WorkerRequest,
+  { type: 'invalidate' | 'preload' | 'shutdown' | 'state' }
+>;
+type WorkerCall = {
+  [T in CallRequest['type']]: Omit<Extract<CallRequest, { type: T }>, 'id'>;
+}[CallRequest['type']];
+
+interface ExecutionTask {
+  id: number;
+  call: WorkerCall;
+  // Calls on an instance run on the worker holding it, whatever its heap limit
+  instanceName?: string;
+  limits: ExecutionLimits;
+  onYield?: (item: ExecutionResult) => void;
+  yielded: ExecutionResult[];
+  resolve: (result: ExecutionResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  heapMb: number;
+  ready: boolean;
+  task: ExecutionTask | null;
+  timer: NodeJS.Timeout | null;
+  cpuMonitor: NodeJS.Timeout | null;
+  instances: Set<string>;
+  onShutdown: (() => void) | null;
+}
+
+export class WorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: ExecutionTask[] = [];
+  private nextTaskId: number = 1;
+  private instanceWorkers = new Map<string, PoolWorker>();
+  // Why instances were lost with their worker, by name, until the name is reused
+  private lostInstances = new Map<string, string>();
+  private hookFailures = new Map<string, Map<LifecycleHook, HookFailure>>();
+  private isTerminating: boolean = false;
+
+  constructor(private readonly size: number = CONFIG.WORKER_POOL_SIZE) {}
+
+  /**
+   * Create a worker thread with the given heap limit, bootstrapping ts-node
+   * when running from source
+   */
+  private spawnWorker(heapMb: number): PoolWorker {
+    const workerFile = path.join(__dirname, `moduleWorker${path.extname(__filename)}`);
+
+    const worker =
+      path.extname(workerFile) === '.ts'
+        ? new Worker(
+            `require(${JSON.stringify(require.resolve('ts-node'))}).register({ transpileOnly: true });
+             require(${JSON.stringify(workerFile)});`,
+            { eval: true, resourceLimits: { maxOldGenerationSizeMb: heapMb } }
+          )
+        : new Worker(workerFile, { resourceLimits: { maxOldGenerationSizeMb: heapMb } });
+
+    const poolWorker: PoolWorker = {
+      worker,
+      heapMb,
+      ready: false,
+      task: null,
+      timer: null,
+      cpuMonitor: null,
+      instances: new Set(),
+      onShutdown: null,
+    };
+
+    worker.on('message', (message: WorkerResponse) => this.handleMessage(poolWorker, message));
+    worker.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+        logger.warn(`Execution worker ran out of memory (${heapMb}MB), recycling worker`);
+        this.replaceWorker(poolWorker, new MemoryLimitError(heapMb), false);
+        return;
+      }
+
+      logger.error('Execution worker crashed:', error.message);
+      this.replaceWorker(poolWorker, new ExecutionError(error.message), false);
+    });
+    worker.on('exit', (exitCode) => {
+      if (!this.isTerminating && this.workers.includes(poolWorker)) {
+        logger.warn(`Execution worker exited unexpectedly with code ${exitCode}`);
+        this.replaceWorker(
+          poolWorker,
+          new ExecutionError('Execution worker exited unexpectedly'),
+          false
+        );
+      }
+    });
+
+    this.workers.push(poolWorker);
+    logger.debug(
+      `Spawned execution worker with ${heapMb}MB heap (${this.workers.length}/${this.size})`
+    );
+    return poolWorker;
+  }
+
+  /**
+   * Mark booted workers as ready, record lifecycle hook outcomes, serve module
+   * state operations, pass on streamed values and settle the running task when
+   * its worker replies. Without an `onYield` hook, streamed values are collected
+   * and returned as one array.
+   */
+  private handleMessage(poolWorker: PoolWorker, message: WorkerResponse): void {
+    if (message.type === 'ready') {
+      poolWorker.ready = true;
+      this.drainQueue();
+      return;
+    }
+
+    if (message.type === 'hook') {
+      this.recordHook(message.modulePath, message.hook, message.error);
+      return;
+    }
+
+    if (message.type === 'shutdown') {
+      poolWorker.onShutdown?.();
+      return;
+    }
+
+    if (message.type === 'state') {
+      this.handleStateRequest(poolWorker, message);
+      return;
+    }
+
+    const task = poolWorker.task;
+    if (!task || task.id !== message.id) {
+      return;
+    }
+
+    if (message.type === 'yield') {
+      const item: ExecutionResult = { text: message.result, value: message.value };
+      if (task.onYield) {
+        task.onYield(item);
+      } else {
+        task.yielded.push(item);
+      }
+      return;
+    }
+
+    this.releaseWorker(poolWorker);
+    this.trackInstance(poolWorker, task, message.type === 'result');
+
+    if (message.type === 'result' && message.streamed && !task.onYield) {
+      task.resolve({
+        text: task.yielded.map((item) => item.text).join('\n'),
+        value: { type: 'array', items: task.yielded.map((item) => item.value) },
+      });
+    } else if (message.type === 'result') {
+      task.resolve({ text: message.result, value: message.value });
+    } else {
+      task.reject(new ExecutionError(message.error));
+    }
+
+    this.drainQueue();
+  }
+
+  /**
+   * Run a module state operation for a worker and send back its result
+   */
+  private handleStateRequest(
+    poolWorker: PoolWorker,
+    message: Extract<WorkerResponse, { type: 'state' }>
+  ): void {
+    StateStore.handle(message.module, message.request)
+      .then(
+        (result): WorkerRequest => ({ type: 'state', id: message.id, result }),
+        (error): WorkerRequest => ({
+          type: 'state',
+          id: message.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      )
+      .then((reply) => poolWorker.worker.postMessage(reply))
+      .catch((error) => {
+        logger.debug('Dropped module state reply for a stopped worker:', error.message);
+      });
+  }
+
+  /**
+   * Remember the latest failure of a module's lifecycle hook on any worker, and
+   * forget it once the hook succeeds
+   */
+  private recordHook(modulePath: string, hook: LifecycleHook, error?: string): void {
+    const failures = this.hookFailures.get(modulePath) || new Map<LifecycleHook, HookFailure>();
+
+    if (error === undefined) {
+      failures.delete(hook);
+    } else {
+      logger.warn(`Lifecycle hook ${hook}() of ${modulePath} failed:`, error);
+      failures.set(hook, { hook, error, timestamp: new Date().toISOString() });
+    }
+
+    if (failures.size > 0) {
+      this.hookFailures.set(modulePath, failures);
+    } else {
+      this.hookFailures.delete(modulePath);
+    }
+  }
+
+  /**
+   * Remember which worker holds an instance once it has been created, and forget
+   * it once it has been disposed. A worker left without instances beyond the
+   * pool size is retired.
+   */
+  private trackInstance(poolWorker: PoolWorker, task: ExecutionTask, succeeded: boolean): void {
+    if (task.call.type === 'construct' && succeeded) {
+      poolWorker.instances.add(task.call.instanceName);
+      this.instanceWorkers.set(task.call.instanceName, poolWorker);
+      this.lostInstances.delete(task.call.instanceName);
+    } else if (task.call.type === 'dispose') {
+      poolWorker.instances.delete(task.call.instanceName);
+      this.instanceWorkers.delete(task.call.instanceName);
+
+      const free = this.workers.filter((w) => w.instances.size === 0);
+      if (poolWorker.instances.size === 0 && free.length > this.size) {
+        this.workers.splice(this.workers.indexOf(poolWorker), 1);
+        this.retireWorker(poolWorker).catch((error) => {
+          logger.warn('Failed to terminate execution worker:', error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Forget the instances held by a worker that is going away, remembering why
+   * they were lost so later calls on them can say so
+   */
+  private dropInstances(poolWorker: PoolWorker, reason: Error): void {
+    if (poolWorker.instances.size === 0) {
+      return;
+    }
+
+    const names = Array.from(poolWorker.instances);
+    logger.warn(`Lost ${names.length} instance(s) with their worker: ${names.join(', ')}`);
+    names.forEach((name) => {
+      this.instanceWorkers.delete(name);
+      this.lostInstances.delete(name);
+      this.lostInstances.set(name, reason.message);
+    });
+    poolWorker.instances.clear();
+
+    // Keep the reasons of the most recently lost instances only
+    Array.from(this.lostInstances.keys())
+      .slice(0, Math.max(0, this.lostInstances.size - CONFIG.MAX_INSTANCES))
+      .forEach((name) => this.lostInstances.delete(name));
+  }
+
+  /**
+   * Detach the current task from a worker and stop its timers
+   */
+  private releaseWorker(poolWorker: PoolWorker): void {
+    if (poolWorker.timer) {
+      clearTimeout(poolWorker.timer);
+      poolWorker.timer = null;
+    }
+    if (poolWorker.cpuMonitor) {
+      clearInterval(poolWorker.cpuMonitor);
+      poolWorker.cpuMonitor = null;
+    }
+    poolWorker.task = null;
+  }
+
+  /**
+   * Take a worker out of the pool, fail its running task and start a fresh
+   * replacement. A worker that is still alive is retired, so it runs the
+   * dispose() hooks of its modules if it responds within the hook timeout (a
+   * call stuck in a busy loop keeps it from responding); crashed workers are
+   * terminated right away.
+   */
+  private replaceWorker(poolWorker: PoolWorker, reason: Error, alive: boolean = true): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) {
+      return;
+    }
+
+    const task = poolWorker.task;
+    this.releaseWorker(poolWorker);
+    this.workers.splice(index, 1);
+    this.dropInstances(poolWorker, reason);
+
+    const stopped = alive ? this.retireWorker(poolWorker) : poolWorker.worker.terminate();
+    stopped.catch((error) => {
+      logger.warn('Failed to terminate execution worker:', error);
+    });
+
+    if (task) {
+      task.reject(reason);
+    } else if (!poolWorker.ready) {
+      // A worker that cannot boot would be respawned forever, so fail the call waiting on it
+      const waitingIndex = this.queue.findIndex(
+        (t) => t.instanceName === undefined && t.limits.maxHeapMb === poolWorker.heapMb
+      );
+      if (waitingIndex !== -1) {
+        this.queue.splice(waitingIndex, 1)[0].reject(reason);
+      }
+    }
+
+    if (!this.isTerminating) {
+      this.drainQueue();
+    }
+  }
+
+  /**
+   * Send a task to a worker and arm its wall-time and CPU-time limits
+   */
+  private runTask(poolWorker: PoolWorker, task: ExecutionTask): void {
+    const { timeoutMs, maxCpuMs } = task.limits;
+
+    poolWorker.task = task;
+    poolWorker.timer = setTimeout(() => {
+      logger.warn(`Execution timed out after ${timeoutMs}ms, recycling worker`);
+      this.replaceWorker(poolWorker, new ExecutionTimeoutError(timeoutMs));
+    }, timeoutMs);
+
+    // Busy time of the worker's event loop approximates CPU time spent by the call
+    const startUsage: EventLoopUtilization = poolWorker.worker.performance.eventLoopUtilization();
+    poolWorker.cpuMonitor = setInterval(
+      () => {
+        const usage = poolWorker.worker.performance.eventLoopUtilization(startUsage);
+        if (usage.active > maxCpuMs) {
+          logger.warn(`Execution exceeded ${maxCpuMs}ms of CPU time, recycling worker`);
+          this.replaceWorker(poolWorker, new CpuLimitError(maxCpuMs));
+        }
+      },
+      Math.min(CPU_SAMPLE_INTERVAL, maxCpuMs)
+    );
+
+    const request: WorkerRequest = { ...task.call, id: task.id };
+    poolWorker.worker.postMessage(request);
+  }
+
+  /**
+   * Find an idle worker with the requested heap limit. Workers holding instances
+   * only take constructs, which prefer them, so that recycling a worker after a
+   * runaway call never loses instances. When there is no such worker, start
+   * booting one; the queue is drained again once it reports ready. Workers
+   * holding instances are never retired here and do not count against the pool
+   * size, so the pool grows past it rather than losing them.
+   */
+  private acquireWorker(heapMb: number, construct: boolean): PoolWorker | null {
+    const idle = this.workers.filter((w) => w.ready && w.task === null && w.heapMb === heapMb);
+    const matching = construct
+      ? idle.find((w) => w.instances.size > 0) || idle[0]
+      : idle.find((w) => w.instances.size === 0);
+    if (matching) {
+      return matching;
+    }
+
+    if (this.workers.some((w) => !w.ready && w.heapMb === heapMb)) {
+      return null;
+    }
+
+    const free = this.workers.filter((w) => w.instances.size === 0);
+    if (free.length < this.size) {
+      this.spawnWorker(heapMb);
+      return null;
+    }
+
+    // Recycle an idle worker without instances that has a different heap limit
+    const recyclable = free.find((w) => w.ready && w.task === null);
+    if (recyclable) {
+      this.workers.splice(this.workers.indexOf(recyclable), 1);
+      this.retireWorker(recyclable).catch((error) => {
+        logger.warn('Failed to terminate execution worker:', error);
+      });
+      this.spawnWorker(heapMb);
+    }
+
+    return null;
+  }
+
+  /**
+   * Let a worker run the dispose() hooks of its modules, then terminate it. Workers
+   * that do not report back within the hook timeout are terminated anyway.
+   */
+  private async retireWorker(poolWorker: PoolWorker): Promise<void> {
+    if (poolWorker.ready) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, CONFIG.LIFECYCLE_HOOK_TIMEOUT_MS + SHUTDOWN_GRACE_MS);
+        poolWorker.onShutdown = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+
+        const request: WorkerRequest = { type: 'shutdown' };
+        poolWorker.worker.postMessage(request);
+      });
+    }
+
+    await poolWorker.worker.terminate();
+  }
+
+  /**
+   * Hand queued tasks to idle workers, spawning workers up to the pool size.
+   * Other tasks run in queue order; calls on an instance wait only for the
+   * worker holding it and fail when the instance is gone.
+   */
+  private drainQueue(): void {
+    let waitingForWorker = false;
+
+    for (const task of [...this.queue]) {
+      let poolWorker: PoolWorker | null;
+
+      if (task.instanceName !== undefined) {
+        const holder = this.instanceWorkers.get(task.instanceName);
+        if (!holder) {
+          this.queue.splice(this.queue.indexOf(task), 1);
+          task.reject(
+            new InstanceLostError(task.instanceName, this.lostInstances.get(task.instanceName))
+          );
+          continue;
+        }
+        poolWorker = holder.task === null ? holder : null;
+      } else {
+        poolWorker = waitingForWorker
+          ? null
+          : this.acquireWorker(task.limits.maxHeapMb, task.call.type === 'construct');
+        waitingForWorker = poolWorker === null;
+      }
+
+      if (poolWorker) {
+        this.queue.splice(this.queue.indexOf(task), 1);
+        this.runTask(poolWorker, task);
+      }
+    }
+  }
+
+  /**
+   * Drop a task from the queue, or recycle the worker running it
+   */
+  private cancel(task: ExecutionTask): void {
+    const queueIndex = this.queue.indexOf(task);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+      task.reject(new ExecutionCancelledError());
+      return;
+    }
+
+    const poolWorker = this.workers.find((w) => w.task === task);
+    if (poolWorker) {
+      logger.info('Execution cancelled, recycling worker');
+      this.replaceWorker(poolWorker, new ExecutionCancelledError());
+    }
+  }
+
+  /**
+   * Queue a call for a worker under the given limits
+   */
+  private submit(
+    call: WorkerCall,
+    limits: ExecutionLimits,
+    options: ExecutionOptions,
+    instanceName?: string
+  ): Promise<ExecutionResult> {
+    if (this.isTerminating) {
+      return Promise.reject(new ExecutionError('Worker pool is shutting down'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new ExecutionCancelledError());
+    }
+
+    return new Promise<ExecutionResult>((resolve, reject) => {
+      const task: ExecutionTask = {
+        id: this.nextTaskId++,
+        call,
+        instanceName,
+        limits,
+        onYield: options.onYield,
+        yielded: [],
+        resolve,
+        reject,
+      };
+
+      options.signal?.addEventListener('abort', () => this.cancel(task), { once: true });
+      this.queue.push(task);
+      this.drainQueue();
+    });
+  }
+
+  /**
+   * Execute a module function in a worker thread under the given limits
+   */
+  public execute(
+    modulePath: string,
+    functionName: string,
+    args: any[],
+    limits: ExecutionLimits = CONFIG.EXECUTION_LIMITS,
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    return this.submit({ type: 'execute', modulePath, functionName, args }, limits, options);
+  }
+
+  /**
+   * Create a named instance of a module's class on a worker. Later calls on the
+   * instance run on that worker.
+   */
+  public construct(
+    instanceName: string,
+    modulePath: string,
+    exportName: string,
+    args: any[],
+    limits: ExecutionLimits = CONFIG.EXECUTION_LIMITS,
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    return this.submit(
+      { type: 'construct', modulePath, exportName, instanceName, args },
+      limits,
+      options
+    );
+  }
+
+  /**
+   * Call a method of an instance on the worker holding it. The heap limit is
+   * that worker's; the time limits apply to this call.
+   */
+  public invoke(
+    instanceName: string,
+    methodName: string,
+    args: any[],
+    limits: ExecutionLimits = CONFIG.EXECUTION_LIMITS,
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    return this.submit(
+      { type: 'invoke', instanceName, methodName, args },
+      limits,
+      options,
+      instanceName
+    );
+  }
+
+  /**
+   * Switch an instance to the current code of its class, keeping its state
+   */
+  public upgrade(
+    instanceName: string,
+    modulePath: string,
+    exportName: string
+  ): Promise<ExecutionResult> {
+    return this.submit(
+      { type: 'upgrade', instanceName, modulePath, exportName },
+      CONFIG.EXECUTION_LIMITS,
+      {},
+      instanceName
+    );
+  }
+
+  /**
+   * Run an instance's dispose() method and remove it from its worker
+   */
+  public dispose(
+    instanceName: string,
+    limits: ExecutionLimits = CONFIG.EXECUTION_LIMITS
+  ): Promise<ExecutionResult> {
+    return this.submit({ type: 'dispose', instanceName }, limits, {}, instanceName);
+  }
+
+  /**
+   * Run a module's health() hook on a worker, loading the module first
+   */
+  public health(
+    modulePath: string,
+    limits: ExecutionLimits = CONFIG.EXECUTION_LIMITS
+  ): Promise<ExecutionResult> {
+    return this.submit({ type: 'health', modulePath }, limits, {});
+  }
+
+  /**
+   * Failed lifecycle hooks of a module, most recent per hook
+   */
+  public getHookFailures(modulePath: string): HookFailure[] {
+    return Array.from(this.hookFailures.get(modulePath)?.values() || []);
+  }
+
+  /**
+   * Check whether an instance is alive on one of the workers
+   */
+  public hasInstance(instanceName: string): boolean {
+    return this.instanceWorkers.has(instanceName);
+  }
+
+  /**
+   * Why an instance was lost with its worker, or null when it was not
+   */
+  public instanceLoss(instanceName: string): string | null {
+    return this.lostInstances.get(instanceName) ?? null;
+  }
+
+  /**
+   * Tell every worker to drop cached copies of changed files, running the
+   * dispose() hooks of the versions they had loaded
+   */
+  public invalidate(paths: string[]): void {
+    paths.forEach((modulePath) => this.hookFailures.delete(modulePath));
+
+    const request: WorkerRequest = { type: 'invalidate', paths };
+    this.workers.forEach((poolWorker) => poolWorker.worker.postMessage(request));
+  }
+
+  /**
+   * Load a module on every running worker so its init() hook runs before the first call
+   */
+  public preload(modulePath: string): void {
+    const request: WorkerRequest = { type: 'preload', modulePath };
+    this.workers.forEach((poolWorker) => poolWorker.worker.postMessage(request));
+  }
+
+  /**
+   * Reject pending tasks, then terminate all workers once they have run the
+   * dispose() hooks of their modules
+   */
+  public async terminate(): Promise<void> {
+    this.isTerminating = true;
+
+    const shutdownError = new ExecutionError('Worker pool is shutting down');
+    this.queue.splice(0).forEach((task) => task.reject(shutdownError));
+
+    const workers = this.workers.splice(0);
+    workers.forEach((poolWorker) => {
+      const task = poolWorker.task;
+      this.releaseWorker(poolWorker);
+      if (task) {
+        task.reject(shutdownError);
+      }
+    });
+
+    this.instanceWorkers.clear();
+    this.lostInstances.clear();
+
+    await Promise.allSettled(workers.map((poolWorker) => this.retireWorker(poolWorker)));
+    this.isTerminating = false;
+    logger.info('Execution workers stopped');
+  }
+}
+
+// Export singleton instance
+export const workerPool = new WorkerPool();
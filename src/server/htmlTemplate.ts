@@ -30,6 +30,7 @@ export class HtmlTemplate {
                 <input type="text" id="functionCall" placeholder="Enter function call (e.g., dog.sayHi('Hello', 'Buddy'))" />
             </div>
             <button onclick="executeFunction()">▶️ Execute</button>
+            <button id="cancelExecution" onclick="cancelExecution()" style="display: none">⏹️ Cancel</button>
             <button onclick="refreshModules()">🔄 Refresh</button>
             <button id="autoRefreshToggle" class="toggle-button" onclick="toggleAutoRefresh()">🔄 Auto Refresh: ON</button>
             <button onclick="toggleLogs()">📊 View Logs</button>
@@ -37,6 +38,24 @@ export class HtmlTemplate {
         
         <div id="result">Ready to execute functions...</div>
         
+        <div id="editor" class="editor-pane" style="display: none;">
+            <div class="editor-toolbar">
+                <h3 id="editorTitle" class="editor-title">✏️ Edit module</h3>
+                <input type="password" id="editorApiKey" placeholder="API key" autocomplete="off" />
+                <button id="editorSave" onclick="saveEditor()">💾 Save</button>
+                <button onclick="closeEditor()">✖️ Close</button>
+            </div>
+            <div id="editorStatus" class="editor-status"></div>
+            <div class="editor-frame">
+                <div id="editorGutter" class="editor-gutter" aria-hidden="true"></div>
+                <div class="editor-code">
+                    <pre id="editorHighlight" class="editor-highlight" aria-hidden="true"></pre>
+                    <textarea id="editorInput" class="editor-input" wrap="off" spellcheck="false"></textarea>
+                </div>
+            </div>
+            <ul id="editorErrors" class="editor-errors"></ul>
+        </div>
+        
         <div id="logs" class="logs" style="display: none;">
             <h3>📊 Execution Logs (Latest 50)</h3>
             <div id="logsContent">Loading logs...</div>
@@ -193,6 +212,77 @@ export class HtmlTemplate {
             color: #0c5460;
         }
         
+        .value-tree {
+            display: inline-block;
+            vertical-align: top;
+        }
+        
+        .value-tree summary {
+            cursor: pointer;
+        }
+        
+        .value-entry {
+            padding-left: 20px;
+        }
+        
+        .value-key {
+            color: #6c757d;
+        }
+        
+        .value-string {
+            color: #b35c00;
+        }
+        
+        .value-number,
+        .value-bigint {
+            color: #1a5fb4;
+        }
+        
+        .value-boolean,
+        .value-null,
+        .value-undefined {
+            color: #813d9c;
+        }
+        
+        .value-truncated {
+            color: #6c757d;
+            font-style: italic;
+        }
+        
+        .value-stack {
+            margin: 4px 0 0 20px;
+            font-size: 12px;
+            opacity: 0.8;
+        }
+        
+        .stream-output {
+            margin: 8px 0 0 0;
+            padding-left: 36px;
+        }
+        
+        .call-steps {
+            margin-top: 12px;
+            padding-top: 12px;
+            border-top: 1px dashed currentColor;
+            font-size: 13px;
+            opacity: 0.85;
+        }
+        
+        .call-warnings {
+            margin-top: 12px;
+            padding: 8px 12px;
+            border-radius: 6px;
+            background: #fff3cd;
+            color: #856404;
+            font-size: 13px;
+            white-space: pre-wrap;
+        }
+        
+        .call-steps-count {
+            font-size: 12px;
+            color: #6c757d;
+        }
+        
         .modules {
             width: 100%;
         }
@@ -285,6 +375,11 @@ export class HtmlTemplate {
             margin-top: 20px;
         }
         
+        .namespace-title {
+            margin: 24px 0 12px 0;
+            color: #2c3e50;
+        }
+        
         .module-card {
             background: white;
             border: 2px solid #e1e5e9;
@@ -309,6 +404,224 @@ export class HtmlTemplate {
             gap: 10px;
         }
         
+        .module-card.failed {
+            background: #f8d7da;
+            border-color: #f5c6cb;
+            color: #721c24;
+        }
+        
+        .module-diagnostic {
+            margin-top: 8px;
+        }
+        
+        .module-diagnostic-message {
+            white-space: pre-wrap;
+            font-family: 'Courier New', monospace;
+            font-size: 0.9em;
+        }
+        
+        .module-diagnostic-location {
+            margin-top: 6px;
+            font-weight: 600;
+        }
+        
+        .module-diagnostic-excerpt {
+            margin-top: 6px;
+            padding: 8px;
+            background: rgba(255, 255, 255, 0.6);
+            border-radius: 6px;
+            overflow-x: auto;
+            font-size: 0.85em;
+        }
+        
+        .module-reload-error {
+            background: #fff3cd;
+            border: 1px solid #ffeeba;
+            color: #856404;
+            border-radius: 8px;
+            padding: 8px 12px;
+            margin-bottom: 15px;
+            font-size: 0.9em;
+            white-space: pre-wrap;
+        }
+        
+        .module-edit-button {
+            margin-left: auto;
+            padding: 4px 10px;
+            font-size: 0.6em;
+            border-radius: 8px;
+        }
+        
+        .editor-pane {
+            background: white;
+            border: 2px solid #e1e5e9;
+            border-radius: 15px;
+            padding: 20px;
+            margin-bottom: 25px;
+        }
+        
+        .editor-toolbar {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 10px;
+            flex-wrap: wrap;
+        }
+        
+        .editor-title {
+            flex: 1;
+            color: #2c3e50;
+        }
+        
+        .editor-toolbar input[type="password"] {
+            padding: 10px 14px;
+            border: 2px solid #e1e5e9;
+            border-radius: 12px;
+            font-size: 14px;
+        }
+        
+        .editor-toolbar button {
+            padding: 10px 18px;
+            font-size: 14px;
+        }
+        
+        .editor-status {
+            margin-bottom: 10px;
+            padding: 8px 12px;
+            border-radius: 8px;
+            white-space: pre-wrap;
+            font-size: 0.9em;
+        }
+        
+        .editor-status:empty {
+            display: none;
+        }
+        
+        .editor-status.success {
+            background: #d4edda;
+            color: #155724;
+        }
+        
+        .editor-status.error {
+            background: #f8d7da;
+            color: #721c24;
+        }
+        
+        .editor-status.warning {
+            background: #fff3cd;
+            color: #856404;
+        }
+        
+        .editor-frame {
+            display: flex;
+            height: 420px;
+            border: 1px solid #e1e5e9;
+            border-radius: 8px;
+            overflow: hidden;
+            background: #fafbfc;
+        }
+        
+        .editor-gutter,
+        .editor-highlight,
+        .editor-input {
+            font-family: 'Courier New', monospace;
+            font-size: 14px;
+            line-height: 20px;
+            tab-size: 2;
+        }
+        
+        .editor-gutter {
+            padding: 10px 0;
+            min-width: 48px;
+            overflow: hidden;
+            text-align: right;
+            color: #95a5a6;
+            background: #f1f3f5;
+            border-right: 1px solid #e1e5e9;
+            user-select: none;
+        }
+        
+        .editor-gutter div {
+            padding: 0 8px;
+        }
+        
+        .editor-gutter .error {
+            background: #dc3545;
+            color: white;
+        }
+        
+        .editor-code {
+            position: relative;
+            flex: 1;
+            overflow: hidden;
+        }
+        
+        .editor-highlight,
+        .editor-input {
+            position: absolute;
+            inset: 0;
+            margin: 0;
+            padding: 10px;
+            border: none;
+            white-space: pre;
+            overflow: auto;
+        }
+        
+        .editor-highlight {
+            color: #2c3e50;
+            pointer-events: none;
+        }
+        
+        .editor-highlight .error {
+            background: rgba(220, 53, 69, 0.15);
+        }
+        
+        .editor-input {
+            color: transparent;
+            caret-color: #2c3e50;
+            background: transparent;
+            resize: none;
+            outline: none;
+        }
+        
+        .token-comment {
+            color: #6a737d;
+            font-style: italic;
+        }
+        
+        .token-string {
+            color: #22863a;
+        }
+        
+        .token-number {
+            color: #005cc5;
+        }
+        
+        .token-keyword {
+            color: #d73a49;
+        }
+        
+        .token-function {
+            color: #6f42c1;
+        }
+        
+        .editor-errors {
+            list-style: none;
+            margin-top: 10px;
+        }
+        
+        .editor-errors li {
+            padding: 6px 10px;
+            margin-bottom: 4px;
+            border-radius: 6px;
+            background: #f8d7da;
+            color: #721c24;
+            font-family: 'Courier New', monospace;
+            font-size: 0.85em;
+            white-space: pre-wrap;
+            cursor: pointer;
+        }
+        
         .function-item {
             margin-bottom: 15px;
             padding: 15px;
@@ -323,12 +636,28 @@ export class HtmlTemplate {
             margin-bottom: 5px;
         }
         
+        .deprecated-badge {
+            display: inline-block;
+            margin-left: 8px;
+            padding: 1px 8px;
+            border-radius: 10px;
+            background: #fff3cd;
+            color: #856404;
+            font-size: 0.75em;
+            font-weight: 600;
+            vertical-align: middle;
+        }
+        
         .function-description {
             color: #7f8c8d;
             margin-bottom: 8px;
             font-size: 0.9em;
         }
         
+        .optional-param {
+            color: #95a5a6;
+        }
+        
         .function-example {
             font-family: 'Courier New', monospace;
             background: #e9ecef;
@@ -5,8 +5,23 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import fs from 'fs';
 import path from 'path';
-import { ExecuteRequest } from '../types';
+import {
+  BatchExecuteRequest,
+  BatchExecuteResponse,
+  BatchItemResult,
+  CallerContext,
+  ExecuteRequest,
+  ExecuteResponse,
+  ExecutionErrorCode,
+  ModuleSourceRequest,
+  ModuleWriteErrorCode,
+  ModuleWriteResponse,
+  ScriptVersion,
+  SerializedValue,
+  StructuredCall,
+} from '../types';
 import { moduleManager } from '../modules/moduleManager';
+import { ExecutionOptions, ExecutionResult, InstanceLostError } from '../modules/workerPool';
 import { dbManager } from '../database/sqlite';
 import { HttpUtils } from '../utils/network';
 import { HtmlTemplate } from './htmlTemplate';
@@ -14,8 +29,47 @@ import { logger } from '../utils/logger';
 import { rateLimiter } from '../utils/rateLimiter';
 import { AuthManager } from '../utils/auth';
 import { InputSanitizer } from '../utils/sanitizer';
-import { isDevelopment } from '../utils/config';
+import { CONFIG, isDevelopment } from '../utils/config';
 import * as ts from 'typescript';
+import { ScriptHistory } from '../modules/scriptHistory';
+import { ReadOnlyRootError } from '../modules/scriptRoots';
+import { InstanceError, instanceRegistry } from '../modules/instanceRegistry';
+import { StateStore } from '../modules/stateStore';
+
+// /api/modules/:name/versions[/:id], /api/modules/:name/diff and /api/modules/:name/rollback
+const MODULE_HISTORY_ROUTE =
+  /^\/api\/modules\/([A-Za-z_][\w.]*)\/(versions|diff|rollback)(?:\/(\d+))?$/;
+
+// /api/modules/:name - read, write or delete a module's source
+const MODULE_ROUTE = /^\/api\/modules\/([A-Za-z_][\w.]*)$/;
+
+// /api/modules/:name/state - inspect or reset a module's persistent state
+const MODULE_STATE_ROUTE = /^\/api\/modules\/([A-Za-z_][\w.]*)\/state$/;
+
+// /api/instances/:name - dispose a class instance
+const INSTANCE_ROUTE = /^\/api\/instances\/([A-Za-z_]\w*)$/;
+
+// Names in structured batch calls: dotted module or instance names, function and argument names
+const CALL_TARGET_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+// HTTP status of calls rejected by a function's policy; other failures are reported with 200
+const EXECUTION_ERROR_STATUS: Partial<Record<ExecutionErrorCode, number>> = {
+  FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+};
+
+// HTTP status of rejected module writes; other codes are client errors (400)
+const MODULE_WRITE_ERROR_STATUS: Partial<Record<ModuleWriteErrorCode, number>> = {
+  MODULE_NOT_FOUND: 404,
+  READ_ONLY_ROOT: 403,
+};
+
+// Version IDs in query strings and request bodies
+const VERSION_ID = /^\d+$/;
+
+// Role an API key needs to change scripts or module state; the main API_KEY has every role
+const ADMIN_ROLE = 'admin';
 
 export class RouteHandler {
   /**
@@ -85,7 +139,7 @@ export class RouteHandler {
       const { query } = HttpUtils.parseUrl(req.url || '');
       const forceRefresh = query.get('forceRefresh') === 'true';
 
-      const modules = await moduleManager.getAvailableModules(forceRefresh);
+      const modules = await moduleManager.listModules(forceRefresh);
       HttpUtils.sendJSON(res, modules);
       logger.debug(`Served modules list (${Object.keys(modules).length} modules)`);
     } catch (error) {
@@ -94,6 +148,300 @@ export class RouteHandler {
     }
   }
 
+  /**
+   * Handle /api/modules/diagnostics - load status of every script file
+   */
+  static async handleModuleDiagnostics(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    try {
+      const diagnostics = await moduleManager.getDiagnostics();
+      HttpUtils.sendJSON(res, diagnostics);
+      logger.debug(`Served diagnostics for ${diagnostics.length} scripts`);
+    } catch (error) {
+      logger.error('Failed to get module diagnostics:', error);
+      HttpUtils.sendError(res, 'Failed to load module diagnostics');
+    }
+  }
+
+  /**
+   * Handle /api/modules/health - run the health() hooks of the modules. Responds
+   * with 503 when any module is unhealthy, so it can serve as a readiness probe.
+   */
+  static async handleModuleHealth(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    try {
+      const modules = await moduleManager.checkHealth();
+      const healthy = modules.every((module) => module.healthy);
+      HttpUtils.sendJSON(res, { healthy, modules }, healthy ? 200 : 503);
+      logger.debug(`Served health of ${modules.length} modules`);
+    } catch (error) {
+      logger.error('Failed to check module health:', error);
+      HttpUtils.sendError(res, 'Failed to check module health');
+    }
+  }
+
+  /**
+   * Handle /api/instances - live class instances with their methods
+   */
+  static async handleInstances(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    const instances = instanceRegistry.list();
+    HttpUtils.sendJSON(res, instances);
+    logger.debug(`Served ${instances.length} instances`);
+  }
+
+  /**
+   * Handle DELETE /api/instances/:name - dispose an instance, like calling
+   * `name.dispose()`
+   */
+  static async handleInstance(
+    req: IncomingMessage,
+    res: ServerResponse,
+    instanceName: string
+  ): Promise<void> {
+    if (req.method !== 'DELETE') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    const clientIP = RouteHandler.getClientIP(req);
+    if (!RouteHandler.authorizeExecution(req, res, clientIP)) {
+      return;
+    }
+
+    try {
+      await instanceRegistry.dispose(instanceName);
+      HttpUtils.sendJSON(res, {
+        message: `Disposed instance ${instanceName}`,
+        instance: instanceName,
+      });
+    } catch (error) {
+      if (error instanceof InstanceError) {
+        HttpUtils.sendError(res, error.message, 404);
+        return;
+      }
+      if (error instanceof InstanceLostError) {
+        HttpUtils.sendError(res, error.message, 410);
+        return;
+      }
+      logger.error(`Failed to dispose instance ${instanceName}:`, error);
+      HttpUtils.sendError(res, `Instance ${instanceName} was removed, but its dispose() failed`);
+    }
+  }
+
+  /**
+   * Handle the version history of a module: list or fetch saved versions, diff two
+   * versions, or roll the module's file back to a saved version
+   */
+  static async handleModuleHistory(
+    req: IncomingMessage,
+    res: ServerResponse,
+    pathname: string
+  ): Promise<void> {
+    const match = MODULE_HISTORY_ROUTE.exec(pathname);
+    if (!match || (match[3] && match[2] !== 'versions')) {
+      HttpUtils.send404(res);
+      return;
+    }
+
+    const [, moduleName, action, versionId] = match;
+    const expectedMethod = action === 'rollback' ? 'POST' : 'GET';
+    if (req.method !== expectedMethod) {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    try {
+      if (action === 'versions' && !versionId) {
+        HttpUtils.sendJSON(res, await ScriptHistory.list(moduleName));
+      } else if (action === 'versions') {
+        const version = await ScriptHistory.get(moduleName, Number(versionId));
+        if (version) {
+          HttpUtils.sendJSON(res, version);
+        } else {
+          HttpUtils.sendError(res, `Version ${versionId} of ${moduleName} not found`, 404);
+        }
+      } else if (action === 'diff') {
+        await this.handleModuleDiff(req, res, moduleName);
+      } else {
+        await this.handleModuleRollback(req, res, moduleName);
+      }
+    } catch (error) {
+      logger.error(`Failed to handle version history request for ${moduleName}:`, error);
+      HttpUtils.sendError(res, 'Failed to handle version history request');
+    }
+  }
+
+  /**
+   * Handle /api/modules/:name/diff?from=ID&to=ID - unified diff between two versions
+   */
+  private static async handleModuleDiff(
+    req: IncomingMessage,
+    res: ServerResponse,
+    moduleName: string
+  ): Promise<void> {
+    const { query } = HttpUtils.parseUrl(req.url || '');
+    const from = query.get('from') || '';
+    const to = query.get('to') || '';
+
+    if (!VERSION_ID.test(from) || !VERSION_ID.test(to)) {
+      HttpUtils.sendError(res, 'Query parameters from and to must be version IDs', 400);
+      return;
+    }
+
+    const diff = await ScriptHistory.diff(moduleName, Number(from), Number(to));
+    if (diff) {
+      HttpUtils.sendJSON(res, diff);
+    } else {
+      HttpUtils.sendError(res, `Version ${from} or ${to} of ${moduleName} not found`, 404);
+    }
+  }
+
+  /**
+   * Handle POST /api/modules/:name/rollback - rewrite the module's file with a saved version
+   */
+  private static async handleModuleRollback(
+    req: IncomingMessage,
+    res: ServerResponse,
+    moduleName: string
+  ): Promise<void> {
+    const clientIP = RouteHandler.getClientIP(req);
+    if (!RouteHandler.authorizeWrite(req, res, clientIP)) {
+      return;
+    }
+
+    const requestData: { version?: number } = await HttpUtils.parseRequestBody(req);
+    if (!VERSION_ID.test(String(requestData.version))) {
+      HttpUtils.sendError(res, 'Missing version ID in request', 400);
+      return;
+    }
+
+    let version: ScriptVersion | null;
+    try {
+      version = await ScriptHistory.rollback(moduleName, Number(requestData.version));
+    } catch (error) {
+      if (!(error instanceof ReadOnlyRootError)) {
+        throw error;
+      }
+      HttpUtils.sendError(res, error.message, 403);
+      return;
+    }
+
+    if (!version) {
+      HttpUtils.sendError(res, `Version ${requestData.version} of ${moduleName} not found`, 404);
+      return;
+    }
+
+    HttpUtils.sendJSON(res, {
+      message: `Rolled back ${moduleName} to version ${version.id}`,
+      module: moduleName,
+      version: version.id,
+      file: version.file_path,
+    });
+  }
+
+  /**
+   * Handle /api/modules/:name - GET returns the module's source, PUT creates or
+   * replaces it with TypeScript source and DELETE removes it. Writes require
+   * the admin role; the file watcher reloads the module afterwards.
+   */
+  static async handleModuleSource(
+    req: IncomingMessage,
+    res: ServerResponse,
+    moduleName: string
+  ): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    try {
+      if (req.method === 'GET') {
+        const source = await moduleManager.readModuleSource(moduleName);
+        if (source) {
+          HttpUtils.sendJSON(res, source);
+        } else {
+          HttpUtils.sendError(res, `Module '${moduleName}' not found`, 404);
+        }
+        return;
+      }
+
+      const clientIP = RouteHandler.getClientIP(req);
+      if (!RouteHandler.authorizeWrite(req, res, clientIP)) {
+        return;
+      }
+
+      let response: ModuleWriteResponse;
+      if (req.method === 'PUT') {
+        const requestData: ModuleSourceRequest = await HttpUtils.parseRequestBody(req);
+        response = await moduleManager.writeModule(moduleName, requestData.source);
+      } else {
+        response = await moduleManager.deleteModule(moduleName);
+      }
+
+      if (response.code) {
+        HttpUtils.sendJSON(res, response, MODULE_WRITE_ERROR_STATUS[response.code] || 400);
+      } else {
+        HttpUtils.sendJSON(res, response, response.created ? 201 : 200);
+      }
+    } catch (error) {
+      logger.error(`Failed to handle ${req.method} request for module ${moduleName}:`, error);
+      HttpUtils.sendError(res, 'Failed to handle module request');
+    }
+  }
+
+  /**
+   * Handle /api/modules/:name/state - GET lists the module's state entries
+   * (optionally only keys starting with ?prefix=) and DELETE resets it. Reading
+   * requires authentication when it is configured; resetting always requires
+   * the admin role.
+   */
+  static async handleModuleState(
+    req: IncomingMessage,
+    res: ServerResponse,
+    moduleName: string
+  ): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'DELETE') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    const clientIP = RouteHandler.getClientIP(req);
+    const authorized =
+      req.method === 'DELETE'
+        ? RouteHandler.authorizeWrite(req, res, clientIP)
+        : RouteHandler.authorizeExecution(req, res, clientIP);
+    if (!authorized) {
+      return;
+    }
+
+    try {
+      if (req.method === 'GET') {
+        const { query } = HttpUtils.parseUrl(req.url || '');
+        const entries = await StateStore.list(moduleName, query.get('prefix') || '');
+        HttpUtils.sendJSON(res, { module: moduleName, entries });
+      } else {
+        const deleted = await StateStore.clear(moduleName);
+        HttpUtils.sendJSON(res, { module: moduleName, deleted });
+      }
+    } catch (error) {
+      logger.error(`Failed to handle state request for module ${moduleName}:`, error);
+      HttpUtils.sendError(res, 'Failed to handle module state request');
+    }
+  }
+
   /**
    * Get client IP address
    */
@@ -138,6 +486,175 @@ export class RouteHandler {
     return !dangerousPatterns.some((pattern) => pattern.test(callString));
   }
 
+  /**
+   * Check authentication and rate limit for an execution request, sending the
+   * error response when the request may not proceed
+   */
+  private static authorizeExecution(
+    req: IncomingMessage,
+    res: ServerResponse,
+    clientIP: string,
+    requireAuth: boolean = AuthManager.isAuthRequired()
+  ): boolean {
+    // Check authentication if required
+    if (requireAuth) {
+      const authToken = AuthManager.extractAuthToken(req.headers);
+
+      if (!authToken) {
+        HttpUtils.sendError(res, 'Authentication required', 401);
+        return false;
+      }
+
+      // Try API key first, then session token
+      const isValidApiKey = AuthManager.validateApiKey(authToken);
+      const isValidSession = AuthManager.validateSession(authToken, clientIP);
+
+      if (!isValidApiKey && !isValidSession) {
+        HttpUtils.sendError(res, 'Invalid authentication token', 401);
+        logger.warn(`Invalid auth attempt from ${clientIP}`);
+        return false;
+      }
+    }
+
+    // Check rate limit
+    if (!rateLimiter.isAllowed(clientIP)) {
+      HttpUtils.sendError(res, 'Rate limit exceeded', 429);
+      logger.warn(`Rate limit exceeded for IP: ${clientIP}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check that a request changing scripts or module state is authenticated, in
+   * every environment, with the main API key or a key holding the admin role.
+   * Session tokens hold no roles, so they cannot change anything.
+   */
+  private static authorizeWrite(
+    req: IncomingMessage,
+    res: ServerResponse,
+    clientIP: string
+  ): boolean {
+    if (!RouteHandler.authorizeExecution(req, res, clientIP, true)) {
+      return false;
+    }
+
+    const roles = AuthManager.getRoles(AuthManager.extractAuthToken(req.headers)!);
+    if (!AuthManager.hasRole(roles, ADMIN_ROLE)) {
+      HttpUtils.sendError(res, `Requires the main API key or the '${ADMIN_ROLE}' role`, 403);
+      logger.warn(`Refused a change without the '${ADMIN_ROLE}' role from ${clientIP}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Identify the caller of an execution request: calls are rate limited per client
+   * IP, and @role tags are checked against the roles of the request's API key
+   */
+  private static getCaller(req: IncomingMessage, clientIP: string): CallerContext {
+    const authToken = AuthManager.extractAuthToken(req.headers);
+    return { id: clientIP, roles: authToken ? AuthManager.getRoles(authToken) : [] };
+  }
+
+  /**
+   * Run the security checks on a call string, returning an error message if it is rejected
+   */
+  private static checkCallString(callString: string, clientIP: string): string | null {
+    // Validate call string
+    if (!RouteHandler.validateCallString(callString)) {
+      logger.warn(`Blocked dangerous call string from ${clientIP}: ${callString}`);
+      return 'Invalid or potentially dangerous function call';
+    }
+
+    // Additional sanitization check
+    if (InputSanitizer.containsDangerousPatterns(callString)) {
+      logger.warn(
+        `Blocked dangerous patterns from ${clientIP}: ${InputSanitizer.sanitizeLogOutput(callString)}`
+      );
+      return 'Potentially dangerous patterns detected';
+    }
+
+    return null;
+  }
+
+  /**
+   * Sanitize and execute a checked call string, then record it in the execution log.
+   * Serialized values are logged but only returned to clients that ask for them.
+   */
+  private static async executeAndLog(
+    callString: string,
+    structured: boolean,
+    caller: CallerContext,
+    options: ExecutionOptions = {}
+  ): Promise<ExecuteResponse> {
+    // Sanitize the call string
+    const sanitizedCallString = InputSanitizer.sanitizeFunctionCall(callString);
+
+    // Keep streamed values so the whole transcript can be logged
+    const transcript: ExecutionResult[] = [];
+    const onYield =
+      options.onYield &&
+      ((item: ExecutionResult) => {
+        transcript.push(item);
+        options.onYield!(item);
+      });
+
+    // Execute the function with sanitized input
+    const result = await moduleManager.executeFunction(sanitizedCallString, {
+      signal: options.signal,
+      onYield,
+      caller,
+    });
+
+    // Log execution to database (sanitize for logging)
+    try {
+      const logCallString = InputSanitizer.sanitizeLogOutput(sanitizedCallString.substring(0, 200));
+      const streamedText = transcript
+        .map((item) => item.text)
+        .concat(result.error ? [result.error] : [])
+        .join('\n');
+      const logResultText = InputSanitizer.sanitizeLogOutput(
+        (transcript.length > 0
+          ? streamedText
+          : result.error || result.result || 'No result'
+        ).substring(0, 1000)
+      );
+      const logStepText = (text?: string) =>
+        text === undefined ? undefined : InputSanitizer.sanitizeLogOutput(text.substring(0, 200));
+      const logDetails = result.steps
+        ? JSON.stringify(
+            result.steps.map(({ value: _value, ...step }) => ({
+              ...step,
+              call: logStepText(step.call),
+              result: logStepText(step.result),
+              error: logStepText(step.error),
+            }))
+          )
+        : null;
+      const logValue: SerializedValue | undefined =
+        transcript.length > 0
+          ? { type: 'array', items: transcript.map((item) => item.value) }
+          : result.value;
+      const logResultJson = logValue ? JSON.stringify(logValue) : null;
+      await dbManager.logExecution(logCallString, logResultText, logDetails, logResultJson);
+    } catch (logError) {
+      logger.warn('Failed to log execution:', logError);
+    }
+
+    if (!structured) {
+      delete result.value;
+      result.steps?.forEach((step) => delete step.value);
+    }
+
+    logger.info(
+      `Executed: ${InputSanitizer.sanitizeLogOutput(sanitizedCallString.substring(0, 100))}`
+    );
+    return result;
+  }
+
   /**
    * Handle /api/execute - execute function calls
    */
@@ -151,30 +668,49 @@ export class RouteHandler {
       // Get client IP for rate limiting
       const clientIP = RouteHandler.getClientIP(req);
 
-      // Check authentication if required
-      if (AuthManager.isAuthRequired()) {
-        const authToken = AuthManager.extractAuthToken(req.headers);
+      if (!RouteHandler.authorizeExecution(req, res, clientIP)) {
+        return;
+      }
 
-        if (!authToken) {
-          HttpUtils.sendError(res, 'Authentication required', 401);
-          return;
-        }
+      const requestData: ExecuteRequest = await HttpUtils.parseRequestBody(req);
 
-        // Try API key first, then session token
-        const isValidApiKey = AuthManager.validateApiKey(authToken);
-        const isValidSession = AuthManager.validateSession(authToken, clientIP);
+      if (!requestData.callString) {
+        HttpUtils.sendError(res, 'Missing callString in request', 400);
+        return;
+      }
 
-        if (!isValidApiKey && !isValidSession) {
-          HttpUtils.sendError(res, 'Invalid authentication token', 401);
-          logger.warn(`Invalid auth attempt from ${clientIP}`);
-          return;
-        }
+      const rejection = RouteHandler.checkCallString(requestData.callString, clientIP);
+      if (rejection) {
+        HttpUtils.sendError(res, rejection, 400);
+        return;
       }
 
-      // Check rate limit
-      if (!rateLimiter.isAllowed(clientIP)) {
-        HttpUtils.sendError(res, 'Rate limit exceeded', 429);
-        logger.warn(`Rate limit exceeded for IP: ${clientIP}`);
+      const result = await RouteHandler.executeAndLog(
+        requestData.callString,
+        requestData.structured === true,
+        RouteHandler.getCaller(req, clientIP)
+      );
+      HttpUtils.sendJSON(res, result, (result.code && EXECUTION_ERROR_STATUS[result.code]) || 200);
+    } catch (error) {
+      logger.error('Failed to execute function:', error);
+      HttpUtils.sendError(res, 'Failed to execute function');
+    }
+  }
+
+  /**
+   * Handle /api/execute/stream - execute a call and stream values yielded by
+   * generator functions as server-sent events. Closing the connection cancels the call.
+   */
+  static async handleExecuteStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    try {
+      const clientIP = RouteHandler.getClientIP(req);
+
+      if (!RouteHandler.authorizeExecution(req, res, clientIP)) {
         return;
       }
 
@@ -185,48 +721,206 @@ export class RouteHandler {
         return;
       }
 
-      // Validate call string
-      if (!RouteHandler.validateCallString(requestData.callString)) {
-        HttpUtils.sendError(res, 'Invalid or potentially dangerous function call', 400);
-        logger.warn(`Blocked dangerous call string from ${clientIP}: ${requestData.callString}`);
+      const rejection = RouteHandler.checkCallString(requestData.callString, clientIP);
+      if (rejection) {
+        HttpUtils.sendError(res, rejection, 400);
         return;
       }
 
-      // Additional sanitization check
-      if (InputSanitizer.containsDangerousPatterns(requestData.callString)) {
-        HttpUtils.sendError(res, 'Potentially dangerous patterns detected', 400);
-        logger.warn(
-          `Blocked dangerous patterns from ${clientIP}: ${InputSanitizer.sanitizeLogOutput(requestData.callString)}`
-        );
-        return;
+      const structured = requestData.structured === true;
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          logger.info(`Stream closed by ${clientIP}, cancelling execution`);
+          controller.abort();
+        }
+      });
+
+      HttpUtils.startEventStream(res);
+      let index = 0;
+
+      const caller = RouteHandler.getCaller(req, clientIP);
+      const result = await RouteHandler.executeAndLog(requestData.callString, structured, caller, {
+        signal: controller.signal,
+        onYield: (item) => {
+          HttpUtils.sendEvent(res, 'yield', {
+            index: index++,
+            result: item.text,
+            ...(structured ? { value: item.value } : {}),
+          });
+        },
+      });
+
+      if (!controller.signal.aborted) {
+        HttpUtils.sendEvent(res, 'done', result);
+        res.end();
+      }
+    } catch (error) {
+      logger.error('Failed to stream execution:', error);
+      if (res.headersSent) {
+        if (!res.destroyed) {
+          HttpUtils.sendEvent(res, 'done', { error: 'Failed to execute function' });
+          res.end();
+        }
+      } else {
+        HttpUtils.sendError(res, 'Failed to execute function');
       }
+    }
+  }
+
+  /**
+   * Check that a structured batch item names a module and function and has
+   * array or object args. Returns an error message, or null if it is valid.
+   */
+  private static checkStructuredCall(call: StructuredCall): string | null {
+    if (!call || typeof call !== 'object') {
+      return 'Expected a call string or {module, function, args}';
+    }
+    if (typeof call.module !== 'string' || !CALL_TARGET_NAME.test(call.module)) {
+      return 'module must be a module or instance name, e.g. cat or farm.cow';
+    }
+    if (typeof call.function !== 'string' || !IDENTIFIER.test(call.function)) {
+      return 'function must be a function name';
+    }
+    if (call.args !== undefined && (typeof call.args !== 'object' || call.args === null)) {
+      return 'args must be an array or an object';
+    }
+
+    const invalidName =
+      call.args && !Array.isArray(call.args)
+        ? Object.keys(call.args).find((name) => !IDENTIFIER.test(name))
+        : undefined;
+    return invalidName === undefined ? null : `Invalid argument name '${invalidName}'`;
+  }
 
-      // Sanitize the call string
-      const sanitizedCallString = InputSanitizer.sanitizeFunctionCall(requestData.callString);
+  /**
+   * Render a checked structured batch item as a call string. Argument values
+   * are written as JSON, which the call parser reads as literals.
+   */
+  private static formatStructuredCall(call: StructuredCall): string {
+    const args = call.args || [];
+    const literal = (value: any) => (value === undefined ? 'undefined' : JSON.stringify(value));
 
-      // Execute the function with sanitized input
-      const result = await moduleManager.executeFunction(sanitizedCallString);
+    const argList = Array.isArray(args)
+      ? args.map(literal)
+      : Object.keys(args).map((name) => `${name}: ${literal(args[name])}`);
 
-      // Log execution to database (sanitize for logging)
+    return `${call.module}.${call.function}(${argList.join(', ')})`;
+  }
+
+  /**
+   * Handle /api/execute/batch - execute several calls in one request. The batch
+   * counts as a single request against the rate limit.
+   */
+  static async handleExecuteBatch(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      HttpUtils.sendMethodNotAllowed(res);
+      return;
+    }
+
+    try {
+      const clientIP = RouteHandler.getClientIP(req);
+
+      if (!RouteHandler.authorizeExecution(req, res, clientIP)) {
+        return;
+      }
+
+      let requestData: BatchExecuteRequest;
       try {
-        const logCallString = InputSanitizer.sanitizeLogOutput(
-          sanitizedCallString.substring(0, 200)
-        );
-        const logResultText = InputSanitizer.sanitizeLogOutput(
-          (result.error || result.result || 'No result').substring(0, 1000)
+        requestData = await HttpUtils.parseRequestBody(req);
+      } catch (error) {
+        HttpUtils.sendError(res, error instanceof Error ? error.message : String(error), 400);
+        return;
+      }
+
+      if (!requestData || typeof requestData !== 'object' || Array.isArray(requestData)) {
+        HttpUtils.sendError(res, 'Request body must be a JSON object', 400);
+        return;
+      }
+
+      const { calls, mode = 'sequential', stopOnError = false, structured = false } = requestData;
+
+      if (!Array.isArray(calls) || calls.length === 0) {
+        HttpUtils.sendError(res, 'Missing calls array in request', 400);
+        return;
+      }
+
+      if (calls.length > CONFIG.MAX_BATCH_ITEMS) {
+        HttpUtils.sendError(
+          res,
+          `Batch too large. At most ${CONFIG.MAX_BATCH_ITEMS} calls are allowed`,
+          400
         );
-        await dbManager.logExecution(logCallString, logResultText);
-      } catch (logError) {
-        logger.warn('Failed to log execution:', logError);
+        return;
       }
 
-      HttpUtils.sendJSON(res, result);
-      logger.info(
-        `Executed: ${InputSanitizer.sanitizeLogOutput(sanitizedCallString.substring(0, 100))}`
+      if (mode !== 'sequential' && mode !== 'parallel') {
+        HttpUtils.sendError(res, "Invalid mode. Expected 'sequential' or 'parallel'", 400);
+        return;
+      }
+
+      for (let index = 0; index < calls.length; index++) {
+        const item = calls[index];
+        const invalid = typeof item === 'string' ? null : RouteHandler.checkStructuredCall(item);
+        if (invalid) {
+          HttpUtils.sendError(res, `Invalid batch item ${index}: ${invalid}`, 400);
+          return;
+        }
+      }
+
+      const callStrings = calls.map((item) =>
+        typeof item === 'string' ? item : RouteHandler.formatStructuredCall(item)
       );
+      const caller = RouteHandler.getCaller(req, clientIP);
+      const results: BatchItemResult[] = new Array(calls.length);
+      let nextIndex = 0;
+      let hasFailed = false;
+
+      const runItem = async (index: number): Promise<BatchItemResult> => {
+        const callString = callStrings[index];
+        const rejection = RouteHandler.checkCallString(callString, clientIP);
+        if (rejection) {
+          return { index, call: callString, error: rejection };
+        }
+
+        return {
+          index,
+          call: callString,
+          ...(await RouteHandler.executeAndLog(callString, structured === true, caller)),
+        };
+      };
+
+      // Each runner takes the next unstarted item; parallel mode runs one per worker
+      const runNext = async (): Promise<void> => {
+        while (nextIndex < calls.length && !(stopOnError && hasFailed)) {
+          const index = nextIndex++;
+          results[index] = await runItem(index);
+          if (results[index].error !== undefined) {
+            hasFailed = true;
+          }
+        }
+      };
+
+      const runners = mode === 'parallel' ? Math.min(CONFIG.WORKER_POOL_SIZE, calls.length) : 1;
+      await Promise.all(Array.from({ length: runners }, () => runNext()));
+
+      for (let index = 0; index < calls.length; index++) {
+        if (!results[index]) {
+          results[index] = {
+            index,
+            call: callStrings[index],
+            skipped: true,
+            error: 'Skipped after an earlier call failed',
+          };
+        }
+      }
+
+      const response: BatchExecuteResponse = { results };
+      HttpUtils.sendJSON(res, response);
+      logger.info(`Executed batch of ${calls.length} calls (${mode})`);
     } catch (error) {
-      logger.error('Failed to execute function:', error);
-      HttpUtils.sendError(res, 'Failed to execute function');
+      logger.error('Failed to execute batch:', error);
+      HttpUtils.sendError(res, 'Failed to execute batch');
     }
   }
 
@@ -259,7 +953,7 @@ export class RouteHandler {
     res.writeHead(200, {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     });
     res.end();
   }
@@ -292,16 +986,46 @@ export class RouteHandler {
         await this.handleModules(req, res);
         break;
 
+      case '/api/modules/diagnostics':
+        await this.handleModuleDiagnostics(req, res);
+        break;
+
+      case '/api/modules/health':
+        await this.handleModuleHealth(req, res);
+        break;
+
       case '/api/execute':
         await this.handleExecute(req, res);
         break;
 
+      case '/api/execute/stream':
+        await this.handleExecuteStream(req, res);
+        break;
+
+      case '/api/execute/batch':
+        await this.handleExecuteBatch(req, res);
+        break;
+
       case '/api/logs':
         await this.handleLogs(req, res);
         break;
 
+      case '/api/instances':
+        await this.handleInstances(req, res);
+        break;
+
       default:
-        HttpUtils.send404(res);
+        if (MODULE_ROUTE.test(pathname)) {
+          await this.handleModuleSource(req, res, MODULE_ROUTE.exec(pathname)![1]);
+        } else if (MODULE_STATE_ROUTE.test(pathname)) {
+          await this.handleModuleState(req, res, MODULE_STATE_ROUTE.exec(pathname)![1]);
+        } else if (pathname.startsWith('/api/modules/')) {
+          await this.handleModuleHistory(req, res, pathname);
+        } else if (INSTANCE_ROUTE.test(pathname)) {
+          await this.handleInstance(req, res, INSTANCE_ROUTE.exec(pathname)![1]);
+        } else {
+          HttpUtils.send404(res);
+        }
         break;
     }
   }
@@ -10,6 +10,8 @@ import { dbManager } from '../database/sqlite';
 import { logger } from '../utils/logger';
 import { CorsManager } from '../utils/cors';
 import { moduleManager } from '../modules/moduleManager';
+import { workerPool } from '../modules/workerPool';
+import { registerTypeScript } from '../modules/moduleLoader';
 
 export class DynamicModuleServer {
   private server: Server | null = null;
@@ -28,7 +30,7 @@ export class DynamicModuleServer {
       // Register TypeScript compiler for development
       if (isDevelopment) {
         try {
-          require('ts-node/register');
+          registerTypeScript();
           logger.info('TypeScript compiler registered for development');
         } catch (error) {
           logger.warn('Failed to register TypeScript compiler:', error);
@@ -93,7 +95,13 @@ export class DynamicModuleServer {
       await new Promise<void>((resolve, reject) => {
         this.server!.listen(this.port, 'localhost', () => {
           logger.info(`🚀 Server running at http://localhost:${this.port}`);
-          logger.info(`📁 Watching scripts directory: ${CONFIG.SCRIPTS_DIR}`);
+          CONFIG.SCRIPT_ROOTS.forEach((root) =>
+            logger.info(
+              `📁 Watching scripts directory: ${root.dir}` +
+                (root.namespace ? ` as ${root.namespace}` : '') +
+                (root.readOnly ? ' (read-only)' : '')
+            )
+          );
           logger.info('💾 SQLite database initialized for execution logging');
           resolve();
         });
@@ -122,7 +130,7 @@ export class DynamicModuleServer {
     try {
       // Remove all listeners to prevent memory leaks
       this.server.removeAllListeners();
-      
+
       // Create promises for parallel shutdown operations
       const serverClosePromise = new Promise<void>((resolve, reject) => {
         const timeout = setTimeout(() => {
@@ -139,20 +147,22 @@ export class DynamicModuleServer {
         });
       });
 
-      const dbClosePromise = this.closeWithTimeout(
-        () => dbManager.close(),
-        3000,
-        'Database close timeout'
+      const workersClosePromise = this.closeWithTimeout(
+        () => workerPool.terminate(),
+        CONFIG.LIFECYCLE_HOOK_TIMEOUT_MS + 1000,
+        'Execution workers stop timeout'
       );
 
+      // dispose() hooks may still save module state, so the database closes after the workers
+      const dbClosePromise = workersClosePromise
+        .catch(() => undefined)
+        .then(() => this.closeWithTimeout(() => dbManager.close(), 3000, 'Database close timeout'));
+
       // Stop file watcher immediately (synchronous operation)
       moduleManager.stopWatcher();
 
-      // Wait for server and database to close in parallel
-      await Promise.allSettled([
-        serverClosePromise,
-        dbClosePromise
-      ]);
+      // Wait for server, workers and database to close
+      await Promise.allSettled([serverClosePromise, dbClosePromise, workersClosePromise]);
 
       this.server = null;
       this.isShuttingDown = false;
@@ -6,6 +6,23 @@
 export interface Parameter {
   name: string;
   type: string;
+  optional?: boolean;
+  defaultValue?: string;
+  rest?: boolean;
+  description?: string;
+}
+
+// JSDoc tag attached to a function declaration
+export interface DocTag {
+  tag: string;
+  name?: string;
+  text: string;
+}
+
+// A single call signature of an overloaded function
+export interface FunctionSignature {
+  parameters: Parameter[];
+  returnType: string;
 }
 
 // Function information interface
@@ -14,13 +31,145 @@ export interface FunctionInfo {
   parameters: Parameter[];
   description: string;
   example: string;
+  returnType?: string;
+  typeParameters?: string[];
+  overloads?: FunctionSignature[];
+  tags?: DocTag[];
+  streaming?: boolean;
+  policy?: FunctionPolicy;
+}
+
+// Execution policy set by JSDoc tags on a function: @timeout, @rateLimit, @role,
+// @hidden and @deprecated
+export interface FunctionPolicy {
+  timeoutMs?: number;
+  // Calls allowed per caller within the window
+  rateLimit?: { maxCalls: number; windowMs: number };
+  // Role the caller's API key must have
+  role?: string;
+  // Left out of /api/modules but still callable
+  hidden?: boolean;
+  // Deprecation message; empty when the tag gives none
+  deprecated?: string;
+}
+
+// Who makes a call: rate limits are counted per id and @role tags are checked
+// against the roles of the caller's API key
+export interface CallerContext {
+  id: string;
+  roles: string[];
+}
+
+// A class a module exports for creating named instances with `module.new(name, ...args)`
+export interface ClassInfo {
+  name: string;
+  // Export the class is available under, e.g. `default` or `Counter`
+  exportName: string;
+  description: string;
+  constructorParameters: Parameter[];
+  methods: FunctionInfo[];
+}
+
+// What happens to live instances when their class's file is reloaded: keep running
+// the old code, upgrade to the new class keeping their state, or dispose them
+export type InstanceReloadPolicy = 'keep' | 'upgrade' | 'dispose';
+
+// A live instance served by GET /api/instances
+export interface InstanceInfo {
+  name: string;
+  module: string;
+  className: string;
+  createdAt: string;
+  methods: FunctionInfo[];
 }
 
 // Module information interface
 export interface ModuleInfo {
   functions: FunctionInfo[];
+  // Set when the module exports a class; `new` is then listed among its functions
+  classInfo?: ClassInfo;
   module: any;
   path: string;
+  // Name of the script root the module was loaded from
+  root: string;
+  limits?: ModuleExecutionLimits;
+  // Set when the file changed but failed to load; the previous version stays in service
+  reloadError?: string;
+  // Import cycles among the scripts this module loads, e.g. "a.ts → b.ts → a.ts"
+  importCycles?: string[];
+  // Lifecycle hooks the module exports
+  hooks?: LifecycleHook[];
+}
+
+// Optional module exports the execution workers call: init() after loading the
+// module, dispose() before replacing or unloading it, health() on request
+export type LifecycleHook = 'init' | 'dispose' | 'health';
+
+// A lifecycle hook that threw or timed out in an execution worker
+export interface HookFailure {
+  hook: LifecycleHook;
+  error: string;
+  timestamp: string;
+}
+
+// Result of a module's health() hook, served by /api/modules/health
+export interface ModuleHealth {
+  module: string;
+  healthy: boolean;
+  result?: string;
+  value?: SerializedValue;
+  error?: string;
+  durationMs: number;
+}
+
+// Passed to a module's init() hook
+export interface ModuleContext {
+  module: string;
+  state: ModuleState;
+}
+
+// Persistent key-value store of a module, kept in SQLite across reloads and
+// restarts. Values must be JSON-serializable.
+export interface ModuleState {
+  get<T = any>(key: string): Promise<T | undefined>;
+  set(key: string, value: any, options?: { ttlMs?: number }): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list(prefix?: string): Promise<StateEntry[]>;
+}
+
+export interface StateEntry {
+  key: string;
+  value: any;
+  // Null for entries that never expire
+  expiresAt: string | null;
+  updatedAt: string;
+}
+
+// Row of the module_state table; value is JSON and expires_at is in epoch milliseconds
+export interface StateRow {
+  key: string;
+  value: string;
+  expires_at: number | null;
+  updated_at: string;
+}
+
+// A module state operation sent by an execution worker; set carries the value as JSON
+export type StateRequest =
+  | { op: 'get'; key: string }
+  | { op: 'set'; key: string; value: string; ttlMs?: number }
+  | { op: 'delete'; key: string }
+  | { op: 'list'; prefix?: string };
+
+// Resource limits applied to a single function call
+export interface ExecutionLimits {
+  maxHeapMb: number;
+  timeoutMs: number;
+  maxCpuMs: number;
+}
+
+// Limits a script exports as `executionLimits`, with optional per-function overrides
+export interface ModuleExecutionLimits extends Partial<ExecutionLimits> {
+  functions?: { [functionName: string]: Partial<ExecutionLimits> };
 }
 
 // Modules map interface
@@ -28,29 +177,314 @@ export interface ModulesMap {
   [key: string]: ModuleInfo;
 }
 
+// Outcome of loading a script: loaded, failed with the previous version still in
+// service (stale), failed with nothing to fall back to, or loaded without functions
+export type ModuleLoadStatus = 'loaded' | 'stale' | 'failed' | 'empty';
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// A compile-time type error reported when TYPE_CHECK_MODE is warn or block
+export interface TypeDiagnostic extends SourceLocation {
+  code: number;
+  message: string;
+}
+
+// Load result of one script file, served by /api/modules/diagnostics
+export interface ModuleDiagnostic {
+  module: string;
+  file: string;
+  status: ModuleLoadStatus;
+  error?: string;
+  location?: SourceLocation;
+  excerpt?: string;
+  typeErrors?: TypeDiagnostic[];
+  hookErrors?: HookFailure[];
+}
+
 // API request/response interfaces
 export interface ExecuteRequest {
   callString: string;
+  structured?: boolean;
+}
+
+// JSON-safe form of a return value that keeps its runtime type
+export type SerializedValue =
+  | { type: 'undefined' }
+  | { type: 'null' }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'number'; value: number | string }
+  | { type: 'bigint'; value: string }
+  | { type: 'string'; value: string; truncated?: boolean }
+  | { type: 'symbol'; description: string }
+  | { type: 'function'; name: string }
+  | { type: 'date'; value: string }
+  | { type: 'regexp'; value: string }
+  | { type: 'error'; name: string; message: string; stack?: string }
+  | { type: 'array'; items: SerializedValue[]; omitted?: number }
+  | { type: 'set'; items: SerializedValue[]; omitted?: number }
+  | { type: 'map'; entries: { key: SerializedValue; value: SerializedValue }[]; omitted?: number }
+  | { type: 'object'; className?: string; properties: SerializedProperty[]; omitted?: number }
+  | { type: 'circular' }
+  | { type: 'truncated'; reason: 'depth' | 'size' };
+
+export interface SerializedProperty {
+  key: string;
+  value: SerializedValue;
+}
+
+// Batch item given as data instead of a call string; object args are passed by name
+export interface StructuredCall {
+  module: string;
+  function: string;
+  args?: any[] | { [name: string]: any };
+}
+
+export type BatchMode = 'sequential' | 'parallel';
+
+export interface BatchExecuteRequest {
+  calls: (string | StructuredCall)[];
+  mode?: BatchMode;
+  stopOnError?: boolean;
+  structured?: boolean;
+}
+
+export interface BatchItemResult extends ExecuteResponse {
+  index: number;
+  call: string;
+  skipped?: boolean;
+}
+
+export interface BatchExecuteResponse {
+  results: BatchItemResult[];
 }
 
 export interface ExecuteResponse {
   result?: string;
+  value?: SerializedValue;
   error?: string;
+  code?: ExecutionErrorCode;
+  limit?: { name: keyof ExecutionLimits; value: number };
+  steps?: CallStep[];
+  // Deprecation notices of the functions called
+  warnings?: string[];
 }
 
+// One call of a nested or piped expression, listed in execution order
+export interface CallStep {
+  call: string;
+  depth: number;
+  durationMs: number;
+  result?: string;
+  value?: SerializedValue;
+  error?: string;
+}
+
+// Request body of PUT /api/modules/:name
+export interface ModuleSourceRequest {
+  source: string;
+}
+
+// Response of GET /api/modules/:name
+export interface ModuleSourceResponse {
+  module: string;
+  file: string;
+  source: string;
+  root: string;
+  readOnly: boolean;
+}
+
+// Machine-readable codes for rejected module writes
+export type ModuleWriteErrorCode =
+  | 'INVALID_MODULE_NAME'
+  | 'INVALID_SOURCE'
+  | 'COMPILE_ERROR'
+  | 'TYPE_ERROR'
+  | 'MODULE_NOT_FOUND'
+  | 'READ_ONLY_ROOT';
+
+// Response of PUT and DELETE /api/modules/:name. Type errors are listed when a
+// module is written in warn mode or rejected in block mode.
+export interface ModuleWriteResponse {
+  module: string;
+  file?: string;
+  created?: boolean;
+  deleted?: boolean;
+  error?: string;
+  code?: ModuleWriteErrorCode;
+  compileErrors?: TypeDiagnostic[];
+  typeErrors?: TypeDiagnostic[];
+  // Load status of a written module once it has been reloaded
+  reload?: ModuleDiagnostic;
+}
+
+// Machine-readable codes for execution failures
+export type ExecutionErrorCode =
+  | 'EXECUTION_TIMEOUT'
+  | 'CPU_LIMIT_EXCEEDED'
+  | 'MEMORY_LIMIT_EXCEEDED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'INSTANCE_LOST';
+
+// Messages sent from the main thread to execution workers
+export type WorkerRequest =
+  | {
+      type: 'execute';
+      id: number;
+      modulePath: string;
+      functionName: string;
+      args: any[];
+    }
+  | {
+      type: 'construct';
+      id: number;
+      modulePath: string;
+      exportName: string;
+      instanceName: string;
+      args: any[];
+    }
+  | {
+      type: 'invoke';
+      id: number;
+      instanceName: string;
+      methodName: string;
+      args: any[];
+    }
+  | {
+      type: 'upgrade';
+      id: number;
+      instanceName: string;
+      modulePath: string;
+      exportName: string;
+    }
+  | {
+      type: 'dispose';
+      id: number;
+      instanceName: string;
+    }
+  | {
+      type: 'health';
+      id: number;
+      modulePath: string;
+    }
+  | {
+      type: 'invalidate';
+      paths: string[];
+    }
+  | {
+      type: 'preload';
+      modulePath: string;
+    }
+  | {
+      type: 'shutdown';
+    }
+  | {
+      type: 'state';
+      id: number;
+      result?: any;
+      error?: string;
+    };
+
+// Messages sent from execution workers back to the main thread
+export type WorkerResponse =
+  | {
+      type: 'ready';
+    }
+  | {
+      type: 'yield';
+      id: number;
+      result: string;
+      value: SerializedValue;
+    }
+  | {
+      type: 'result';
+      id: number;
+      result: string;
+      value: SerializedValue;
+      streamed: boolean;
+    }
+  | {
+      type: 'error';
+      id: number;
+      error: string;
+    }
+  | {
+      type: 'hook';
+      modulePath: string;
+      hook: LifecycleHook;
+      error?: string;
+    }
+  | {
+      type: 'shutdown';
+    }
+  | {
+      type: 'state';
+      id: number;
+      module: string;
+      request: StateRequest;
+    };
+
 // Log entry interface
 export interface LogEntry {
   id: number;
   call_string: string;
   result: string;
+  result_json: string | null;
+  details: string | null;
   timestamp: string;
 }
 
+// Snapshot of a module's source file; content is only included for a single version
+export interface ScriptVersion {
+  id: number;
+  module_name: string;
+  file_path: string;
+  content_hash: string;
+  size: number;
+  timestamp: string;
+  content?: string;
+}
+
+// Unified diff between two saved versions of a module
+export interface ScriptVersionDiff {
+  module: string;
+  from: number;
+  to: number;
+  added: number;
+  removed: number;
+  diff: string;
+}
+
 // Configuration interface
 export interface ServerConfig {
   DEFAULT_PORT: number;
-  SCRIPTS_DIR: string;
+  SCRIPT_ROOTS: ScriptRoot[];
   DATABASE_PATH: string;
   CACHE_TTL: number;
   MAX_PORT_RANGE: number;
+  WORKER_POOL_SIZE: number;
+  EXECUTION_LIMITS: ExecutionLimits;
+  MAX_BATCH_ITEMS: number;
+  TYPE_CHECK_MODE: TypeCheckMode;
+  MAX_INSTANCES: number;
+  INSTANCE_RELOAD_POLICY: InstanceReloadPolicy;
+  LIFECYCLE_HOOK_TIMEOUT_MS: number;
+  MAX_STATE_VALUE_BYTES: number;
 }
+
+// A directory of scripts. Its modules are named after their path below the
+// directory, prefixed with the namespace it is mounted under (if any).
+export interface ScriptRoot {
+  name: string;
+  dir: string;
+  namespace: string;
+  readOnly: boolean;
+}
+
+// off: scripts are only transpiled; warn: type errors are reported; block: modules
+// with type errors are not loaded and the previous version stays in service
+export type TypeCheckMode = 'off' | 'warn' | 'block';
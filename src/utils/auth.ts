@@ -5,8 +5,12 @@
 import crypto from 'crypto';
 import { logger } from './logger';
 
+// Role held by the main API_KEY: it may call every function
+const ALL_ROLES = '*';
+
 export class AuthManager {
-  private static readonly API_KEYS = new Set<string>();
+  // Roles of each API key
+  private static readonly API_KEYS = new Map<string, string[]>();
   private static readonly SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
   private static sessions = new Map<string, { created: number; ip: string }>();
 
@@ -16,20 +20,33 @@ export class AuthManager {
   static initialize(): void {
     // Generate a default API key for development
     const defaultKey = process.env.API_KEY || this.generateApiKey();
-    this.API_KEYS.add(defaultKey);
+    this.API_KEYS.set(defaultKey, [ALL_ROLES]);
+
+    // Additional keys with limited roles, e.g. API_KEYS=key1:ops|reader,key2:reader
+    (process.env.API_KEYS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [key, roles = ''] = entry.split(':');
+        this.API_KEYS.set(
+          key,
+          roles.split('|').filter((role) => role !== '')
+        );
+      });
 
     if (!process.env.API_KEY) {
       logger.warn(`No API_KEY environment variable set. Using generated key: ${defaultKey}`);
       logger.warn('Please set API_KEY environment variable for production use.');
     }
 
-    // Clean up expired sessions every hour
+    // Clean up expired sessions every hour, without keeping the process alive
     setInterval(
       () => {
         this.cleanupSessions();
       },
       60 * 60 * 1000
-    );
+    ).unref();
   }
 
   /**
@@ -46,6 +63,20 @@ export class AuthManager {
     return this.API_KEYS.has(apiKey);
   }
 
+  /**
+   * Roles of an API key, or an empty list for unknown keys. Session tokens hold no roles.
+   */
+  static getRoles(apiKey: string): string[] {
+    return this.API_KEYS.get(apiKey) || [];
+  }
+
+  /**
+   * Check whether a set of roles includes the given one; the main API_KEY has them all
+   */
+  static hasRole(roles: string[], role: string): boolean {
+    return roles.includes(ALL_ROLES) || roles.includes(role);
+  }
+
   /**
    * Create a session token
    */
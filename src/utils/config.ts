@@ -2,16 +2,81 @@
  * Configuration constants for the Dynamic Module Demo Jimmfly
  */
 
-import { ServerConfig } from '../types';
+import { InstanceReloadPolicy, ScriptRoot, ServerConfig, TypeCheckMode } from '../types';
+import os from 'os';
 import path from 'path';
 
+const TYPE_CHECK_MODES: TypeCheckMode[] = ['off', 'warn', 'block'];
+
+const INSTANCE_RELOAD_POLICIES: InstanceReloadPolicy[] = ['keep', 'upgrade', 'dispose'];
+
+// Parts of the namespace a script root is mounted under
+const NAMESPACE_SEGMENT = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Parse SCRIPT_ROOTS, a comma-separated list of `[namespace=]directory[:ro]`
+ * entries such as `scripts,shared=../shared-functions:ro`. Directories are
+ * relative to the working directory; without the variable ./scripts is used.
+ */
+function parseScriptRoots(value: string | undefined): ScriptRoot[] {
+  const entries = (value || 'scripts')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+
+  const roots = entries.map((entry): ScriptRoot => {
+    const mode = /:(ro|rw)$/.exec(entry);
+    const mount = mode ? entry.slice(0, -mode[0].length) : entry;
+    const separator = mount.indexOf('=');
+    const namespace = separator === -1 ? '' : mount.slice(0, separator).trim();
+    const dir = path.resolve(separator === -1 ? mount : mount.slice(separator + 1).trim());
+
+    if (namespace && !namespace.split('.').every((part) => NAMESPACE_SEGMENT.test(part))) {
+      throw new Error(`Invalid namespace in SCRIPT_ROOTS entry '${entry}'`);
+    }
+
+    return {
+      name: path.relative(process.cwd(), dir) || '.',
+      dir,
+      namespace,
+      readOnly: mode?.[1] === 'ro',
+    };
+  });
+
+  roots.forEach((root, index) =>
+    roots.slice(index + 1).forEach((other) => {
+      const relative = path.relative(root.dir, other.dir);
+      const reverse = path.relative(other.dir, root.dir);
+      if (!relative.startsWith('..') || !reverse.startsWith('..')) {
+        throw new Error(`Script roots must not overlap: ${root.name} and ${other.name}`);
+      }
+    })
+  );
+
+  return roots;
+}
+
 // Server configuration
 export const CONFIG: ServerConfig = {
   DEFAULT_PORT: 8080,
-  SCRIPTS_DIR: path.join(process.cwd(), 'scripts'),
+  SCRIPT_ROOTS: parseScriptRoots(process.env.SCRIPT_ROOTS),
   DATABASE_PATH: path.join(process.cwd(), 'execution_log.db'),
   CACHE_TTL: 5000, // 5 seconds
   MAX_PORT_RANGE: 100,
+  WORKER_POOL_SIZE: Math.max(1, Math.min(4, os.cpus().length - 1)),
+  EXECUTION_LIMITS: {
+    maxHeapMb: 128,
+    timeoutMs: 5000, // 5 seconds wall time
+    maxCpuMs: 3000, // 3 seconds of busy worker time
+  },
+  MAX_BATCH_ITEMS: Number(process.env.MAX_BATCH_ITEMS) || 50,
+  TYPE_CHECK_MODE: TYPE_CHECK_MODES.find((mode) => mode === process.env.TYPE_CHECK_MODE) || 'off',
+  MAX_INSTANCES: Number(process.env.MAX_INSTANCES) || 100,
+  INSTANCE_RELOAD_POLICY:
+    INSTANCE_RELOAD_POLICIES.find((policy) => policy === process.env.INSTANCE_RELOAD_POLICY) ||
+    'upgrade',
+  LIFECYCLE_HOOK_TIMEOUT_MS: Number(process.env.LIFECYCLE_HOOK_TIMEOUT_MS) || 2000,
+  MAX_STATE_VALUE_BYTES: Number(process.env.MAX_STATE_VALUE_BYTES) || 64 * 1024,
 } as const;
 
 // Environment-specific settings
@@ -7,7 +7,7 @@ import { logger } from './logger';
 
 export class CorsManager {
   private static readonly ALLOWED_ORIGINS = new Set<string>();
-  private static readonly ALLOWED_METHODS = ['GET', 'POST', 'OPTIONS'];
+  private static readonly ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'];
   private static readonly ALLOWED_HEADERS = ['Content-Type', 'Authorization'];
   private static readonly MAX_AGE = 86400; // 24 hours
 
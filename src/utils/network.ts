@@ -54,7 +54,7 @@ export class HttpUtils {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     });
     res.end(JSON.stringify(data));
   }
@@ -103,6 +103,25 @@ export class HttpUtils {
     res.end(js);
   }
 
+  /**
+   * Start a server-sent events response
+   */
+  static startEventStream(res: ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+  }
+
+  /**
+   * Send one server-sent event with a JSON payload
+   */
+  static sendEvent(res: ServerResponse, event: string, data: any): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
   /**
    * Parse request body as JSON with size limits
    */
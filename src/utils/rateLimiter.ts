@@ -66,10 +66,10 @@ export class RateLimiter {
 // Export singleton instance
 export const rateLimiter = new RateLimiter();
 
-// Cleanup every 5 minutes
+// Cleanup every 5 minutes, without keeping the process alive
 setInterval(
   () => {
     rateLimiter.cleanup();
   },
   5 * 60 * 1000
-);
+).unref();
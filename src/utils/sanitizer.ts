@@ -71,6 +71,27 @@ export class InputSanitizer {
       return value;
     }
 
+    // Dates, Maps and Sets reach here as results of nested calls
+    if (value instanceof Date) {
+      return new Date(value.getTime());
+    }
+
+    if (value instanceof Map) {
+      return new Map(
+        Array.from(value.entries())
+          .slice(0, 100)
+          .map(([key, item]) => [this.sanitizeParameter(key), this.sanitizeParameter(item)])
+      );
+    }
+
+    if (value instanceof Set) {
+      return new Set(
+        Array.from(value)
+          .slice(0, 100)
+          .map((item) => this.sanitizeParameter(item))
+      );
+    }
+
     if (Array.isArray(value)) {
       // Limit array size
       if (value.length > 100) {
@@ -0,0 +1,160 @@
+/**
+ * Line-based text diff rendered in unified diff format
+ */
+
+// Lines of unchanged context shown around each change
+const CONTEXT_LINES = 3;
+
+// Larger changed regions are shown as a full replacement instead of a minimal diff
+const MAX_DIFF_CELLS = 4000000;
+
+type DiffOperation = ' ' | '-' | '+';
+
+interface DiffLine {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface DiffResult {
+  diff: string;
+  added: number;
+  removed: number;
+}
+
+export class TextDiff {
+  /**
+   * Compare two texts line by line. The diff is empty when they are identical.
+   */
+  static unified(before: string, after: string, fromLabel: string, toLabel: string): DiffResult {
+    const lines = this.diffLines(this.splitLines(before), this.splitLines(after));
+    const added = lines.filter((line) => line.type === '+').length;
+    const removed = lines.filter((line) => line.type === '-').length;
+
+    if (added === 0 && removed === 0) {
+      return { diff: '', added, removed };
+    }
+
+    const hunks = this.groupHunks(lines).map(([start, end]) => this.renderHunk(lines, start, end));
+    return { diff: [`--- ${fromLabel}`, `+++ ${toLabel}`, ...hunks].join('\n'), added, removed };
+  }
+
+  /**
+   * Split text into lines, ignoring a final line break
+   */
+  private static splitLines(text: string): string[] {
+    return text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+  }
+
+  /**
+   * Diff two line arrays. Common leading and trailing lines are matched first,
+   * then the remaining region is diffed by longest common subsequence.
+   */
+  private static diffLines(before: string[], after: string[]): DiffLine[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+      start++;
+    }
+
+    let beforeEnd = before.length;
+    let afterEnd = after.length;
+    while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+      beforeEnd--;
+      afterEnd--;
+    }
+
+    const removedPart = before.slice(start, beforeEnd);
+    const addedPart = after.slice(start, afterEnd);
+    const middle =
+      removedPart.length * addedPart.length > MAX_DIFF_CELLS
+        ? [
+            ...removedPart.map((text): DiffLine => ({ type: '-', text })),
+            ...addedPart.map((text): DiffLine => ({ type: '+', text })),
+          ]
+        : this.diffCommonSubsequence(removedPart, addedPart);
+
+    return [
+      ...before.slice(0, start).map((text): DiffLine => ({ type: ' ', text })),
+      ...middle,
+      ...before.slice(beforeEnd).map((text): DiffLine => ({ type: ' ', text })),
+    ];
+  }
+
+  /**
+   * Minimal line diff from a longest-common-subsequence table
+   */
+  private static diffCommonSubsequence(before: string[], after: string[]): DiffLine[] {
+    const width = after.length + 1;
+    const table = new Uint32Array((before.length + 1) * width);
+
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        table[i * width + j] =
+          before[i] === after[j]
+            ? table[(i + 1) * width + j + 1] + 1
+            : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+      if (before[i] === after[j]) {
+        lines.push({ type: ' ', text: before[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        lines.push({ type: '-', text: before[i++] });
+      } else {
+        lines.push({ type: '+', text: after[j++] });
+      }
+    }
+
+    before.slice(i).forEach((text) => lines.push({ type: '-', text }));
+    after.slice(j).forEach((text) => lines.push({ type: '+', text }));
+    return lines;
+  }
+
+  /**
+   * Ranges of lines to show: every change with its surrounding context, merging
+   * ranges that touch or overlap
+   */
+  private static groupHunks(lines: DiffLine[]): [number, number][] {
+    const hunks: [number, number][] = [];
+
+    lines.forEach((line, index) => {
+      if (line.type === ' ') {
+        return;
+      }
+
+      const start = Math.max(0, index - CONTEXT_LINES);
+      const end = Math.min(lines.length, index + CONTEXT_LINES + 1);
+      const last = hunks[hunks.length - 1];
+
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        hunks.push([start, end]);
+      }
+    });
+
+    return hunks;
+  }
+
+  /**
+   * Render one hunk with its `@@ -a,b +c,d @@` header
+   */
+  private static renderHunk(lines: DiffLine[], start: number, end: number): string {
+    const beforeOffset = lines.slice(0, start).filter((line) => line.type !== '+').length;
+    const afterOffset = lines.slice(0, start).filter((line) => line.type !== '-').length;
+    const hunk = lines.slice(start, end);
+    const beforeCount = hunk.filter((line) => line.type !== '+').length;
+    const afterCount = hunk.filter((line) => line.type !== '-').length;
+
+    const header =
+      `@@ -${beforeOffset + (beforeCount > 0 ? 1 : 0)},${beforeCount} ` +
+      `+${afterOffset + (afterCount > 0 ? 1 : 0)},${afterCount} @@`;
+
+    return [header, ...hunk.map((line) => `${line.type}${line.text}`)].join('\n');
+  }
+}
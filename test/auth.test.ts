@@ -0,0 +1,76 @@
+/**
+ * Roles of API keys, and the admin role needed to change scripts or module state
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { useScripts } from './scriptFixture';
+
+process.env.API_KEY = 'main-key';
+process.env.API_KEYS = 'ops-key:ops,admin-key:admin|ops';
+
+const CODE = 'export function value(): number {\n  return 1;\n}\n';
+
+const scripts = useScripts({ 'counter.ts': CODE });
+
+/**
+ * Headers authenticating with the given token
+ */
+function as(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+test('gives API keys their roles and session tokens none', async () => {
+  const { AuthManager } = await import('../src/utils/auth');
+  const session = AuthManager.createSession('10.0.0.1');
+
+  assert.deepEqual(AuthManager.getRoles('main-key'), ['*']);
+  assert.deepEqual(AuthManager.getRoles('admin-key'), ['admin', 'ops']);
+  assert.deepEqual(AuthManager.getRoles(session), []);
+  assert.deepEqual(AuthManager.getRoles('unknown'), []);
+  assert.ok(AuthManager.hasRole(['*'], 'admin'));
+  assert.ok(!AuthManager.hasRole(['ops'], 'admin'));
+});
+
+test('requires the admin role to change scripts or module state', async () => {
+  await scripts.moduleManager.getAvailableModules();
+  const { AuthManager } = await import('../src/utils/auth');
+  const session = AuthManager.createSession('127.0.0.1');
+
+  const writes = [
+    ['PUT', '/api/modules/counter', { source: CODE }],
+    ['DELETE', '/api/modules/counter', undefined],
+    ['POST', '/api/modules/counter/rollback', { version: 1 }],
+    ['DELETE', '/api/modules/counter/state', undefined],
+  ] as const;
+
+  for (const [method, pathname, body] of writes) {
+    const write = (headers: Record<string, string>) =>
+      scripts.request(method, pathname, { body, headers });
+
+    assert.equal((await write({})).status, 401, `${method} ${pathname}`);
+    assert.deepEqual(await write(as('ops-key')), {
+      status: 403,
+      body: { error: "Requires the main API key or the 'admin' role" },
+    });
+    assert.equal((await write(as(session))).status, 403, `${method} ${pathname}`);
+  }
+
+  const reset = await scripts.request('DELETE', '/api/modules/counter/state', {
+    headers: as('admin-key'),
+  });
+  assert.equal(reset.status, 200);
+
+  const update = await scripts.request('PUT', '/api/modules/counter', {
+    body: { source: CODE.replace('1', '2') },
+    headers: as('main-key'),
+  });
+  assert.equal(update.status, 200);
+
+  // Let the watcher reload the module before the fixture closes the database
+  const deadline = Date.now() + 5000;
+  while ((await scripts.moduleManager.executeFunction('counter.value()')).result !== '2') {
+    assert.ok(Date.now() < deadline, 'The updated module was not reloaded');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+});
@@ -0,0 +1,132 @@
+/**
+ * POST /api/execute/batch
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { useScripts } from './scriptFixture';
+
+const scripts = useScripts({
+  'math.ts': `
+/**
+ * Add two numbers
+ */
+export function add(a: number, b: number): number {
+  return a + b;
+}
+
+/**
+ * Always fails
+ */
+export function fail(): never {
+  throw new Error('broken');
+}
+`,
+});
+
+/**
+ * Send a batch request body
+ */
+function batch(body: any) {
+  return scripts.request('POST', '/api/execute/batch', { body });
+}
+
+test('runs every call and reports each success and failure', async () => {
+  for (const mode of ['sequential', 'parallel']) {
+    const { status, body } = await batch({
+      mode,
+      calls: [
+        'math.add(1, 2)',
+        'math.fail()',
+        { module: 'math', function: 'add', args: { a: 2, b: 3 } },
+        'math.missing()',
+        { module: 'math', function: 'add', args: [4, 'x'] },
+      ],
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.results.map((item: any) => [item.index, item.call, item.result]),
+      [
+        [0, 'math.add(1, 2)', '3'],
+        [1, 'math.fail()', undefined],
+        [2, 'math.add(a: 2, b: 3)', '5'],
+        [3, 'math.missing()', undefined],
+        [4, 'math.add(4, "x")', undefined],
+      ]
+    );
+    assert.equal(body.results[1].error, 'Function execution failed');
+    assert.equal(body.results[3].error, 'Function math.missing not found');
+    assert.equal(body.results[4].error, `Invalid parameter 'b': expected number, got "x" (string)`);
+    assert.equal(body.results[0].error, undefined);
+    assert.equal(body.results[0].value, undefined);
+  }
+});
+
+test('skips the remaining calls after a failure with stopOnError', async () => {
+  const { status, body } = await batch({
+    calls: ['math.add(1, 1)', 'math.fail()', 'math.add(2, 2)'],
+    stopOnError: true,
+    structured: true,
+  });
+
+  assert.equal(status, 200);
+  assert.deepEqual(body.results[0].value, { type: 'number', value: 2 });
+  assert.equal(body.results[1].error, 'Function execution failed');
+  assert.deepEqual(body.results[2], {
+    index: 2,
+    call: 'math.add(2, 2)',
+    skipped: true,
+    error: 'Skipped after an earlier call failed',
+  });
+});
+
+test('rejects malformed batch bodies before running anything', async () => {
+  const cases: [any, string][] = [
+    ['{"calls": [', 'Invalid JSON in request body'],
+    ['null', 'Request body must be a JSON object'],
+    [['math.add(1, 2)'], 'Request body must be a JSON object'],
+    [{}, 'Missing calls array in request'],
+    [{ calls: [] }, 'Missing calls array in request'],
+    [{ calls: 'math.add(1, 2)' }, 'Missing calls array in request'],
+    [{ calls: Array(51).fill('math.add(1, 2)') }, 'Batch too large. At most 50 calls are allowed'],
+    [
+      { calls: ['math.add(1, 2)'], mode: 'random' },
+      "Invalid mode. Expected 'sequential' or 'parallel'",
+    ],
+    [
+      { calls: ['math.add(1, 2)', 42] },
+      'Invalid batch item 1: Expected a call string or {module, function, args}',
+    ],
+    [
+      { calls: [{ module: 'math; rm', function: 'add' }] },
+      'Invalid batch item 0: module must be a module or instance name, e.g. cat or farm.cow',
+    ],
+    [
+      { calls: [{ module: 'math', function: 'add()' }] },
+      'Invalid batch item 0: function must be a function name',
+    ],
+    [
+      { calls: [{ module: 'math', function: 'add', args: 'a, b' }] },
+      'Invalid batch item 0: args must be an array or an object',
+    ],
+    [
+      { calls: [{ module: 'math', function: 'add', args: { 'a)': 1 } }] },
+      "Invalid batch item 0: Invalid argument name 'a)'",
+    ],
+  ];
+
+  const logCount = (await scripts.request('GET', '/api/logs')).body.length;
+  for (const [body, error] of cases) {
+    const response = await batch(body);
+    assert.equal(response.status, 400, JSON.stringify(body));
+    assert.equal(response.body.error, error);
+  }
+
+  assert.equal((await scripts.request('GET', '/api/logs')).body.length, logCount);
+});
+
+test('only accepts POST', async () => {
+  const response = await scripts.request('GET', '/api/execute/batch');
+  assert.equal(response.status, 405);
+});
@@ -0,0 +1,50 @@
+/**
+ * Execution of functions carrying JSDoc policy tags
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const scriptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'function-policy-'));
+fs.writeFileSync(
+  path.join(scriptsDir, 'busy.ts'),
+  `/**
+ * Keep the CPU busy for a while
+ * @param ms - Milliseconds to spin
+ * @timeout 8s
+ */
+export function spin(ms: number): string {
+  const end = Date.now() + ms;
+  while (Date.now() < end) {}
+  return 'done';
+}
+`
+);
+process.env.SCRIPT_ROOTS = scriptsDir;
+
+let moduleManager: typeof import('../src/modules/moduleManager').moduleManager;
+let workerPool: typeof import('../src/modules/workerPool').workerPool;
+let CONFIG: typeof import('../src/utils/config').CONFIG;
+
+before(async () => {
+  ({ moduleManager } = await import('../src/modules/moduleManager'));
+  ({ workerPool } = await import('../src/modules/workerPool'));
+  ({ CONFIG } = await import('../src/utils/config'));
+});
+
+after(async () => {
+  moduleManager.stopWatcher();
+  await workerPool.terminate();
+  fs.rmSync(scriptsDir, { recursive: true, force: true });
+});
+
+test('lets a CPU-bound function run past the default CPU limit with a longer @timeout', async () => {
+  const spinMs = CONFIG.EXECUTION_LIMITS.maxCpuMs + 500;
+  const response = await moduleManager.executeFunction(`busy.spin(${spinMs})`);
+
+  assert.equal(response.error, undefined);
+  assert.equal(response.result, 'done');
+});
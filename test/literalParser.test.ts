@@ -0,0 +1,81 @@
+/**
+ * Parsing call arguments as JavaScript-style literals without evaluating them
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { LiteralParseError, LiteralParser } from '../src/modules/literalParser';
+
+const parse = (source: string) => LiteralParser.parseArguments(source).positional;
+
+test('parses hex, octal, binary and separated numbers', () => {
+  assert.deepEqual(
+    parse('0xff, 0o17, 0b101, 1_000_000, -2.5e3, .5'),
+    [255, 15, 5, 1000000, -2500, 0.5]
+  );
+  assert.throws(() => parse('1__000'), /Invalid numeric separator/);
+  assert.throws(() => parse('1_'), /Invalid numeric separator/);
+  assert.throws(() => parse('12abc'), LiteralParseError);
+});
+
+test('parses single, double and template quoted strings with escapes', () => {
+  assert.deepEqual(parse(`'it\\'s', "a\\tb", \`line\`, '\\u{1F600}', "\\x41"`), [
+    "it's",
+    'a\tb',
+    'line',
+    '😀',
+    'A',
+  ]);
+  assert.throws(() => parse('`${name}`'), /interpolation is not supported/);
+  assert.throws(() => parse("'open"), /Unterminated string/);
+});
+
+test('allows trailing commas inside arrays and objects but not after the last argument', () => {
+  assert.deepEqual(parse('[1, 2,], { a: 1, "b c": [true, null], }'), [
+    [1, 2],
+    { a: 1, 'b c': [true, null] },
+  ]);
+  assert.throws(() => parse('1, 2,'), /Trailing comma in arguments/);
+});
+
+test('parses named arguments after positional ones', () => {
+  assert.deepEqual(LiteralParser.parseArguments("'Tom', times: 3, loud: true"), {
+    positional: ['Tom'],
+    named: [
+      { name: 'times', value: 3 },
+      { name: 'loud', value: true },
+    ],
+  });
+  assert.throws(
+    () => LiteralParser.parseArguments("times: 3, 'Tom'"),
+    /Positional arguments must come before named arguments/
+  );
+  assert.throws(
+    () => LiteralParser.parseArguments('times: 3, times: 4'),
+    /Duplicate named argument 'times'/
+  );
+});
+
+test('rejects identifiers and expressions instead of evaluating them', () => {
+  assert.throws(() => parse('Tom'), /Unexpected identifier 'Tom'.*Strings must be quoted/);
+  assert.throws(() => parse('process.exit(1)'), LiteralParseError);
+  assert.throws(() => parse('1 + 2'), LiteralParseError);
+  assert.throws(() => parse('(() => 1)()'), LiteralParseError);
+  assert.throws(() => parse('[globalThis]'), LiteralParseError);
+  assert.throws(() => parse('{ a: b }'), LiteralParseError);
+});
+
+test('rejects __proto__ keys and keeps prototype-like keys as plain data', () => {
+  assert.throws(() => parse('{ __proto__: { admin: true } }'), /'__proto__' is not allowed/);
+  assert.throws(() => parse('{ "__proto__": {} }'), /'__proto__' is not allowed/);
+
+  const [value] = parse('{ constructor: 1, prototype: 2 }');
+  assert.equal(Object.getPrototypeOf(value), Object.prototype);
+  assert.deepEqual(Object.keys(value), ['constructor', 'prototype']);
+  assert.equal(({} as any).admin, undefined);
+});
+
+test('rejects duplicate properties and nesting beyond the depth limit', () => {
+  assert.throws(() => parse('{ a: 1, a: 2 }'), /Duplicate property 'a'/);
+  assert.throws(() => parse('['.repeat(40) + ']'.repeat(40)), LiteralParseError);
+});
@@ -0,0 +1,106 @@
+/**
+ * Hot reloading of scripts by the module manager. Each run works on scripts in
+ * a temporary directory, so the sources are imported once SCRIPT_ROOTS points there.
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'module-manager-'));
+const scriptsDir = path.join(workDir, 'scripts');
+fs.mkdirSync(scriptsDir);
+fs.writeFileSync(path.join(scriptsDir, 'greet.ts'), 'export const hello = () => "hello";\n');
+process.env.SCRIPT_ROOTS = scriptsDir;
+
+// Recursive file watching is only available on Linux since Node.js 19.1; without
+// it changes are picked up once the cache expires
+const [nodeMajor, nodeMinor] = process.versions.node.split('.').map(Number);
+const recursiveWatch =
+  process.platform !== 'linux' || nodeMajor > 19 || (nodeMajor === 19 && nodeMinor >= 1);
+
+let moduleManager: typeof import('../src/modules/moduleManager').moduleManager;
+let workerPool: typeof import('../src/modules/workerPool').workerPool;
+let CONFIG: typeof import('../src/utils/config').CONFIG;
+
+/**
+ * Replace a script the way atomic editor saves and `sed -i` do: write a
+ * temporary file next to it and rename it over the script
+ */
+function replaceScript(name: string, source: string): void {
+  const tempPath = path.join(scriptsDir, `sed${process.hrtime.bigint()}`);
+  fs.writeFileSync(tempPath, source);
+  fs.renameSync(tempPath, path.join(scriptsDir, name));
+}
+
+/**
+ * Poll the listed functions of a module until the expected ones show up
+ */
+async function waitForFunctions(
+  moduleName: string,
+  expected: string[],
+  timeoutMs: number = 2000
+): Promise<string[]> {
+  const deadline = Date.now() + timeoutMs;
+  let names: string[] = [];
+  while (Date.now() < deadline) {
+    const modules = await moduleManager.getAvailableModules();
+    names = (modules[moduleName]?.functions || []).map((functionInfo) => functionInfo.name);
+    if (expected.every((name) => names.includes(name))) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return names;
+}
+
+before(async () => {
+  ({ moduleManager } = await import('../src/modules/moduleManager'));
+  ({ workerPool } = await import('../src/modules/workerPool'));
+  ({ CONFIG } = await import('../src/utils/config'));
+});
+
+after(async () => {
+  moduleManager.stopWatcher();
+  await workerPool.terminate();
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test(
+  'reloads a script every time it is replaced through a rename',
+  { skip: !recursiveWatch },
+  async () => {
+    assert.deepEqual(await waitForFunctions('greet', ['hello']), ['hello']);
+
+    replaceScript('greet.ts', 'export const bye = () => "bye";\n');
+    assert.deepEqual(await waitForFunctions('greet', ['bye']), ['bye']);
+
+    replaceScript('greet.ts', 'export const later = () => "later";\n');
+    assert.deepEqual(await waitForFunctions('greet', ['later']), ['later']);
+  }
+);
+
+test('picks up changes the file watcher missed once the cache expires', async () => {
+  // Watchers that stop reporting events, as they do for files replaced too quickly
+  (moduleManager as any).fileWatchers.forEach((watcher: fs.FSWatcher) => watcher.close());
+
+  replaceScript('greet.ts', 'export const missed = () => "missed";\n');
+  assert.deepEqual(await waitForFunctions('greet', ['missed'], CONFIG.CACHE_TTL + 2000), [
+    'missed',
+  ]);
+});
+
+test('runs the new code in the workers after a forced refresh', async () => {
+  moduleManager.stopWatcher();
+  const echoPath = path.join(scriptsDir, 'echo.ts');
+
+  fs.writeFileSync(echoPath, 'export const version = () => 1;\n');
+  await moduleManager.getAvailableModules(true);
+  assert.equal((await moduleManager.executeFunction('echo.version()')).result, '1');
+
+  fs.writeFileSync(echoPath, 'export const version = () => 2;\n');
+  await moduleManager.getAvailableModules(true);
+  assert.equal((await moduleManager.executeFunction('echo.version()')).result, '2');
+});
@@ -0,0 +1,44 @@
+/**
+ * The state store scripts reach through getState()
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import path from 'path';
+import { StateRequest } from '../src/types';
+import {
+  createModuleState,
+  getState,
+  setStateTransport,
+  stateNameOf,
+} from '../src/modules/moduleState';
+
+test('names state after the mount path of the script', () => {
+  assert.equal(stateNameOf(path.resolve('scripts/farm/cow.ts')), 'farm.cow');
+  assert.equal(stateNameOf(path.resolve('scripts/cat.mts')), 'cat');
+});
+
+test('forwards operations through the transport with the module name', async () => {
+  const requests: [string, StateRequest][] = [];
+  setStateTransport(async (moduleName, request) => {
+    requests.push([moduleName, request]);
+    return request.op === 'get' ? 3 : undefined;
+  });
+
+  const state = createModuleState('farm.cow');
+  assert.equal(await state.get('visits'), 3);
+  await state.set('visits', 4, { ttlMs: 1000 });
+  await assert.rejects(
+    state.set('handler', () => undefined),
+    TypeError
+  );
+
+  assert.deepEqual(requests, [
+    ['farm.cow', { op: 'get', key: 'visits' }],
+    ['farm.cow', { op: 'set', key: 'visits', value: '4', ttlMs: 1000 }],
+  ]);
+});
+
+test('only gives state to scripts in a script root', () => {
+  assert.throws(() => getState(), /must be called from a script/);
+});
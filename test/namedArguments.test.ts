@@ -0,0 +1,104 @@
+/**
+ * Passing call arguments by parameter name
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CallExpressionParser, CallNode } from '../src/modules/callParser';
+import { useScripts } from './scriptFixture';
+
+const scripts = useScripts({
+  'pet.ts': `
+/**
+ * Greet a pet
+ */
+export function greet(name: string, greeting: string = 'Hi', times?: number): string {
+  return Array(times || 1).fill(greeting + ' ' + name).join(', ');
+}
+
+/**
+ * Describe a pet given as an object
+ */
+export function describe(pet: { name: string; age?: number }, verbose?: boolean): string {
+  return pet.name + (verbose ? ' (' + (pet.age ?? '?') + ')' : '');
+}
+
+/**
+ * Feed pets
+ */
+export function feed(food: string, ...pets: string[]): string {
+  return pets.map((pet) => pet + ' eats ' + food).join('; ');
+}
+`,
+});
+
+/**
+ * Result or error of a call
+ */
+async function call(callString: string): Promise<string | undefined> {
+  const response = await scripts.moduleManager.executeFunction(callString);
+  return response.error ?? response.result;
+}
+
+test('parses named arguments of nested calls and pipe stages', () => {
+  const call = CallExpressionParser.parse(
+    'pet.greet("Tom", greeting: pet.greet("Kitty", times: 2))'
+  );
+  const inner = call.args.named[0].value as CallNode;
+
+  assert.deepEqual(call.args.positional, ['Tom']);
+  assert.equal(call.args.named[0].name, 'greeting');
+  assert.equal(inner.source, 'pet.greet("Kitty", times: 2)');
+  assert.deepEqual(inner.args.named, [{ name: 'times', value: 2 }]);
+
+  const piped = CallExpressionParser.parse('pet.greet("Tom") |> pet.greet(name: _, times: 2)');
+  assert.ok(piped.args.named[0].value instanceof CallNode);
+});
+
+test('maps named arguments to parameters in any order', async () => {
+  assert.equal(await call('pet.greet(greeting: "Hello", name: "Tom")'), 'Hello Tom');
+  assert.equal(await call('pet.greet("Tom", times: 2)'), 'Hi Tom, Hi Tom');
+  assert.equal(
+    await call('pet.feed("fish", pets: ["Tom", "Kitty"])'),
+    'Tom eats fish; Kitty eats fish'
+  );
+});
+
+test('rejects unknown, duplicate and doubly passed names', async () => {
+  assert.equal(
+    await call('pet.greet(name: "Tom", colour: "red")'),
+    "Unknown parameter 'colour' for pet.greet. Available parameters: name, greeting, times"
+  );
+  assert.match(
+    (await call('pet.greet(name: "Tom", name: "Kitty")'))!,
+    /Duplicate named argument 'name'/
+  );
+  assert.equal(
+    await call('pet.greet("Tom", name: "Kitty")'),
+    "Parameter 'name' was passed both by position and by name"
+  );
+  assert.equal(
+    await call('pet.feed(food: "fish", pets: "Tom")'),
+    "Rest parameter 'pets' must be given an array of values"
+  );
+  assert.equal(
+    await call('pet.greet(greeting: "Hello")'),
+    "Missing required parameter 'name' (string)"
+  );
+});
+
+test('reads a single object of parameter names as named arguments', async () => {
+  assert.equal(await call('pet.greet({ name: "Tom", times: 2 })'), 'Hi Tom, Hi Tom');
+  assert.equal(
+    await call('pet.greet({ name: "Tom", colour: "red" })'),
+    "Unknown parameter 'colour' for pet.greet. Available parameters: name, greeting, times"
+  );
+});
+
+test('passes a single object positionally when it matches the first parameter', async () => {
+  assert.equal(await call('pet.describe({ name: "Tom", age: 3 })'), 'Tom');
+  assert.equal(
+    await call('pet.describe({ pet: { name: "Tom", age: 3 }, verbose: true })'),
+    'Tom (3)'
+  );
+});
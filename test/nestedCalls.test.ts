@@ -0,0 +1,117 @@
+/**
+ * Passing the results of nested calls and pipe stages on as values
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ValueSerializer } from '../src/modules/valueSerializer';
+import { useScripts } from './scriptFixture';
+
+const scripts = useScripts({
+  'math.ts': `
+/**
+ * Add two numbers
+ */
+export function add(a: number, b: number): number {
+  return a + b;
+}
+
+/**
+ * Name the type of a value
+ */
+export function kind(value: any): string {
+  return value instanceof Date ? 'date' : value instanceof Map ? 'map' : typeof value;
+}
+
+/**
+ * A point
+ */
+export function point(x: number, y: number): { x: number; y: number } {
+  return { x, y };
+}
+
+/**
+ * Manhattan length of a point
+ */
+export function length(p: { x: number; y: number }): number {
+  return Math.abs(p.x) + Math.abs(p.y);
+}
+
+/**
+ * Scale a point
+ */
+export function scale(p: { x: number; y: number }, factor: number): { x: number; y: number } {
+  return { x: p.x * factor, y: p.y * factor };
+}
+
+/**
+ * Timestamp of the epoch
+ */
+export function epoch(): Date {
+  return new Date(0);
+}
+
+/**
+ * Counts by name
+ */
+export function counts(): Map<string, number> {
+  return new Map([['a', 1]]);
+}
+
+/**
+ * A function, which cannot be passed on
+ */
+export function callback(): () => void {
+  return () => {};
+}
+`,
+});
+
+/**
+ * Result or error of a call
+ */
+async function call(callString: string): Promise<string | undefined> {
+  const response = await scripts.moduleManager.executeFunction(callString);
+  return response.error ?? response.result;
+}
+
+test('passes numbers from nested calls and pipe stages', async () => {
+  assert.equal(await call('math.add(math.add(1, 2), 3)'), '6');
+  assert.equal(await call('math.add(1, 2) |> math.add(_, 10)'), '13');
+  assert.equal(await call('math.kind(math.add(1, 2))'), 'number');
+});
+
+test('passes objects from nested calls and pipe stages', async () => {
+  assert.equal(await call('math.length(math.point(3, -4))'), '7');
+  assert.equal(await call('math.point(1, 2) |> math.scale(_, 3) |> math.length(_)'), '9');
+  assert.equal(await call('math.kind(math.point(1, 2))'), 'object');
+});
+
+test('passes dates and maps as such', async () => {
+  assert.equal(await call('math.kind(math.epoch())'), 'date');
+  assert.equal(await call('math.counts() |> math.kind(_)'), 'map');
+});
+
+test('fails calls given a result that cannot be passed on', async () => {
+  assert.equal(
+    await call('math.kind(math.callback())'),
+    'math.callback(): Result cannot be passed on: function (anonymous) cannot be passed on'
+  );
+});
+
+test('rebuilds serialized values', () => {
+  const value = {
+    list: [1, 'two', null, undefined],
+    big: BigInt(10),
+    set: new Set([1]),
+    when: new Date(0),
+    pattern: /a+/gi,
+    nan: NaN,
+  };
+
+  assert.deepEqual(ValueSerializer.deserialize(ValueSerializer.serialize(value)), value);
+  assert.throws(
+    () => ValueSerializer.deserialize(ValueSerializer.serialize('x'.repeat(20000))),
+    /too long/
+  );
+});
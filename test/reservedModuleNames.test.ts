@@ -0,0 +1,38 @@
+/**
+ * Module names taken by the /api/modules/health and /api/modules/diagnostics routes
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { useScripts } from './scriptFixture';
+
+const scripts = useScripts({
+  'health.ts': 'export const check = () => "ok";\n',
+  'farm/health.ts': 'export const check = () => "ok";\n',
+});
+
+test('does not load top-level modules with reserved names', async () => {
+  const modules = await scripts.moduleManager.getAvailableModules();
+
+  assert.equal(modules.health, undefined);
+  assert.ok(modules['farm.health']);
+  assert.deepEqual(await scripts.request('GET', '/api/modules/health'), {
+    status: 200,
+    body: { healthy: true, modules: [] },
+  });
+});
+
+test('refuses to write modules with reserved names', async () => {
+  for (const name of ['health', 'diagnostics']) {
+    assert.deepEqual(
+      await scripts.moduleManager.writeModule(name, 'export const check = () => "ok";\n'),
+      {
+        module: name,
+        error: `Module name '${name}' is reserved by the /api/modules/${name} route`,
+        code: 'INVALID_MODULE_NAME',
+      }
+    );
+  }
+
+  assert.equal(await scripts.moduleManager.readModuleSource('health'), null);
+});
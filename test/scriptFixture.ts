@@ -0,0 +1,100 @@
+/**
+ * Temporary script root for tests that load and run scripts. SCRIPT_ROOTS is
+ * read when the sources are first imported, so call useScripts() at the top
+ * level of a test file; the sources are imported in its before() hook.
+ */
+
+import { after, before } from 'node:test';
+import fs from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+export interface ScriptFixture {
+  scriptsDir: string;
+  moduleManager: typeof import('../src/modules/moduleManager').moduleManager;
+  workerPool: typeof import('../src/modules/workerPool').workerPool;
+  request: (method: string, pathname: string, options?: RequestOptions) => Promise<TestResponse>;
+}
+
+export interface RequestOptions {
+  // Sent as JSON unless it is a string
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Write the given scripts, by path below the root, into a new temporary script
+ * root and load the module manager against it, with the execution log and
+ * version history in a temporary database. request() sends HTTP requests to
+ * the API routes. Everything is stopped and removed after the file's tests.
+ */
+export function useScripts(files: Record<string, string>): ScriptFixture {
+  const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dynamic-module-'));
+  const scriptsDir = path.join(baseDir, 'scripts');
+  Object.entries(files).forEach(([file, source]) => {
+    fs.mkdirSync(path.dirname(path.join(scriptsDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(scriptsDir, file), source);
+  });
+  fs.mkdirSync(scriptsDir, { recursive: true });
+  process.env.SCRIPT_ROOTS = scriptsDir;
+
+  const fixture = { scriptsDir } as ScriptFixture;
+  let server: Server | null = null;
+  let dbManager: typeof import('../src/database/sqlite').dbManager;
+
+  before(async () => {
+    const { CONFIG } = await import('../src/utils/config');
+    CONFIG.DATABASE_PATH = path.join(baseDir, 'execution_log.db');
+    dbManager = (await import('../src/database/sqlite')).dbManager;
+    await dbManager.initDatabase();
+
+    fixture.moduleManager = (await import('../src/modules/moduleManager')).moduleManager;
+    fixture.workerPool = (await import('../src/modules/workerPool')).workerPool;
+
+    const { RouteHandler } = await import('../src/server/routes');
+    server = createServer((req, res) => {
+      RouteHandler.handleRequest(req, res).catch((error) => {
+        res.writeHead(500);
+        res.end(String(error));
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  });
+
+  fixture.request = async (method, pathname, options = {}) => {
+    const { port } = server!.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${pathname}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body:
+        options.body === undefined || typeof options.body === 'string'
+          ? options.body
+          : JSON.stringify(options.body),
+    });
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON, keep the text
+    }
+    return { status: response.status, body };
+  };
+
+  after(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    fixture.moduleManager.stopWatcher();
+    await fixture.workerPool.terminate();
+    await dbManager.close();
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  return fixture;
+}
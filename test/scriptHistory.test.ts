@@ -0,0 +1,121 @@
+/**
+ * Version history of scripts: snapshots, diffs and rollback through the API
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'fs';
+import path from 'path';
+import { useScripts } from './scriptFixture';
+
+process.env.API_KEY = 'history-key';
+
+const FIRST = 'export function value(): number {\n  return 1;\n}\n';
+const SECOND = 'export function value(): number {\n  return 2;\n}\n';
+
+const scripts = useScripts({ 'counter.ts': FIRST });
+const auth = { Authorization: 'Bearer history-key' };
+
+/**
+ * Poll until the check returns a value other than undefined
+ */
+async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value !== undefined) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error('Timed out');
+}
+
+/**
+ * Saved versions of the counter module, once there are the given number of them
+ */
+function versions(count: number): Promise<any[]> {
+  return waitFor(async () => {
+    const { body } = await scripts.request('GET', '/api/modules/counter/versions');
+    return body.length === count ? body : undefined;
+  });
+}
+
+test('saves a version when a module loads and whenever it changes', async () => {
+  await scripts.moduleManager.getAvailableModules();
+  const [first] = await versions(1);
+
+  await scripts.moduleManager.writeModule('counter', SECOND);
+  const [second, original] = await versions(2);
+
+  assert.equal(original.id, first.id);
+  assert.ok(second.id > first.id);
+  assert.equal(second.file_path, 'counter.ts');
+  assert.equal(second.content, undefined);
+
+  const { body } = await scripts.request('GET', `/api/modules/counter/versions/${first.id}`);
+  assert.equal(body.content, FIRST);
+});
+
+test('diffs two saved versions', async () => {
+  const [second, first] = await versions(2);
+
+  const { status, body } = await scripts.request(
+    'GET',
+    `/api/modules/counter/diff?from=${first.id}&to=${second.id}`
+  );
+  assert.equal(status, 200);
+  assert.deepEqual(body, {
+    module: 'counter',
+    from: first.id,
+    to: second.id,
+    diff: [
+      `--- counter.ts (version ${first.id})`,
+      `+++ counter.ts (version ${second.id})`,
+      '@@ -1,3 +1,3 @@',
+      ' export function value(): number {',
+      '-  return 1;',
+      '+  return 2;',
+      ' }',
+    ].join('\n'),
+    added: 1,
+    removed: 1,
+  });
+
+  const missing = await scripts.request('GET', `/api/modules/counter/diff?from=${first.id}&to=999`);
+  assert.equal(missing.status, 404);
+  const invalid = await scripts.request('GET', '/api/modules/counter/diff?from=1');
+  assert.equal(invalid.status, 400);
+});
+
+test('rolls a module back to a saved version', async () => {
+  const [second, first] = await versions(2);
+  assert.equal((await scripts.moduleManager.executeFunction('counter.value()')).result, '2');
+
+  const rollback = (body: any, headers: Record<string, string> = auth) =>
+    scripts.request('POST', '/api/modules/counter/rollback', { body, headers });
+
+  assert.equal((await rollback({ version: first.id }, {})).status, 401);
+  assert.equal((await rollback({})).status, 400);
+  assert.equal((await rollback({ version: 999 })).status, 404);
+
+  assert.deepEqual(await rollback({ version: first.id }), {
+    status: 200,
+    body: {
+      message: `Rolled back counter to version ${first.id}`,
+      module: 'counter',
+      version: first.id,
+      file: 'counter.ts',
+    },
+  });
+  assert.equal(fs.readFileSync(path.join(scripts.scriptsDir, 'counter.ts'), 'utf8'), FIRST);
+
+  // The restored content is reloaded and saved as the newest version
+  await waitFor(async () => {
+    const response = await scripts.moduleManager.executeFunction('counter.value()');
+    return response.result === '1' ? response : undefined;
+  });
+  const [restored] = await versions(3);
+  assert.ok(restored.id > second.id);
+  assert.equal(restored.content_hash, first.content_hash);
+});
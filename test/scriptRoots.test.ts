@@ -0,0 +1,31 @@
+/**
+ * Mapping files to the script roots they lie in
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ScriptRoots } from '../src/modules/scriptRoots';
+
+const scriptRoots = new ScriptRoots([
+  { name: 'scripts', dir: '/srv/scripts', namespace: '', readOnly: false },
+  { name: 'vendor', dir: '/srv/vendor', namespace: 'vendor.lib', readOnly: true },
+]);
+
+test('maps files to their root and mount path', () => {
+  assert.equal(scriptRoots.rootOf('/srv/vendor/math.ts')?.name, 'vendor');
+  assert.equal(scriptRoots.rootOf('/srv/scripts/farm/cow.ts')?.name, 'scripts');
+  assert.equal(scriptRoots.rootOf('/srv/other/cat.ts'), null);
+  assert.equal(scriptRoots.rootOf('/srv/scripts-old/cat.ts'), null);
+  assert.equal(scriptRoots.mountPath('/srv/vendor/math.ts'), 'vendor/lib/math.ts');
+  assert.equal(scriptRoots.mountPath('/srv/scripts/farm/cow.ts'), 'farm/cow.ts');
+});
+
+test('rejects overlapping script roots', async () => {
+  // The configuration was read when ScriptRoots was imported; read it again
+  delete require.cache[require.resolve('../src/utils/config')];
+  process.env.SCRIPT_ROOTS = '/srv/scripts,vendor=/srv/scripts/vendor:ro';
+  await assert.rejects(
+    import('../src/utils/config'),
+    /Script roots must not overlap: .*scripts and .*scripts\/vendor/
+  );
+});
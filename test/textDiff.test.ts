@@ -0,0 +1,70 @@
+/**
+ * Unified diffs of script versions
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { TextDiff } from '../src/utils/textDiff';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+test('reports no diff for identical texts', () => {
+  assert.deepEqual(TextDiff.unified('a\nb\n', 'a\nb', 'old', 'new'), {
+    diff: '',
+    added: 0,
+    removed: 0,
+  });
+});
+
+test('shows a change with three lines of context', () => {
+  const before = numbered(10);
+  const after = [...before];
+  after[4] = 'line five';
+
+  assert.deepEqual(TextDiff.unified(before.join('\n'), after.join('\n'), 'old', 'new'), {
+    diff: [
+      '--- old',
+      '+++ new',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+line five',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+    ].join('\n'),
+    added: 1,
+    removed: 1,
+  });
+});
+
+test('splits distant changes into hunks and merges close ones', () => {
+  const before = numbered(20);
+  const after = before.filter((line) => line !== 'line 2' && line !== 'line 18');
+  after.splice(3, 0, 'inserted');
+
+  const { diff, added, removed } = TextDiff.unified(before.join('\n'), after.join('\n'), 'a', 'b');
+
+  assert.equal(added, 1);
+  assert.equal(removed, 2);
+  assert.deepEqual(
+    diff.split('\n').filter((line) => line.startsWith('@@')),
+    ['@@ -1,7 +1,7 @@', '@@ -15,6 +15,5 @@']
+  );
+  assert.match(diff, /\n line 1\n-line 2\n line 3\n line 4\n\+inserted\n line 5\n/);
+  assert.match(diff, /\n line 17\n-line 18\n line 19\n line 20$/);
+});
+
+test('diffs against empty texts and ignores line ending style', () => {
+  assert.equal(
+    TextDiff.unified('', 'one\ntwo\n', 'old', 'new').diff,
+    '--- old\n+++ new\n@@ -0,0 +1,2 @@\n+one\n+two'
+  );
+  assert.equal(
+    TextDiff.unified('one\r\ntwo\r\n', '', 'old', 'new').diff,
+    '--- old\n+++ new\n@@ -1,2 +0,0 @@\n-one\n-two'
+  );
+  assert.equal(TextDiff.unified('one\r\ntwo\r\n', 'one\ntwo\n', 'old', 'new').diff, '');
+});
@@ -0,0 +1,103 @@
+/**
+ * Checking call arguments against declared parameter types
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { TypeValidator } from '../src/modules/typeValidator';
+import { useScripts } from './scriptFixture';
+
+const scripts = useScripts({
+  'shop.ts': `
+/**
+ * Order an item
+ * @param item - What to order
+ * @param size - Cup size
+ * @param extras - Extra toppings
+ */
+export function order(item: string, size: 'small' | 'large' = 'small', extras?: string[]): string {
+  return [item, size, ...(extras || [])].join(' ');
+}
+
+/**
+ * Add up prices
+ */
+export function total(prices: Record<string, number>, ...discounts: number[]): number {
+  return Object.values(prices).reduce((sum, price) => sum + price, 0) - discounts.length;
+}
+`,
+});
+
+test('matches primitive, literal union and array types', () => {
+  assert.equal(TypeValidator.matches('tea', 'string'), true);
+  assert.equal(TypeValidator.matches(3, 'number'), true);
+  assert.equal(TypeValidator.matches(NaN, 'number'), false);
+  assert.equal(TypeValidator.matches('large', "'small' | 'large'"), true);
+  assert.equal(TypeValidator.matches('medium', "'small' | 'large'"), false);
+  assert.equal(TypeValidator.matches(-1, '-1 | 0 | 1'), true);
+  assert.equal(TypeValidator.matches(null, 'string | null'), true);
+  assert.equal(TypeValidator.matches([1, 2], 'number[]'), true);
+  assert.equal(TypeValidator.matches([1, '2'], 'Array<number>'), false);
+});
+
+test('matches Record, object shape and tuple types', () => {
+  assert.equal(TypeValidator.matches({ a: 1, b: 2 }, 'Record<string, number>'), true);
+  assert.equal(TypeValidator.matches({ a: 'x' }, 'Record<string, number>'), false);
+  assert.equal(TypeValidator.matches({ 1: true }, 'Record<number, boolean>'), true);
+  assert.equal(TypeValidator.matches([], 'Record<string, number>'), false);
+  assert.equal(TypeValidator.matches({ x: 1 }, '{ x: number; y?: number }'), true);
+  assert.equal(TypeValidator.matches({ y: 1 }, '{ x: number; y?: number }'), false);
+  assert.equal(TypeValidator.matches(['a', 1], '[string, number]'), true);
+  assert.equal(TypeValidator.matches(['a'], '[string, number?]'), true);
+  assert.equal(TypeValidator.matches(['a', 1, 2], '[string, number]'), false);
+});
+
+test('accepts types it cannot check at runtime', () => {
+  assert.equal(TypeValidator.matches({ any: 'thing' }, 'Customer'), true);
+  assert.equal(TypeValidator.matches(1, 'T'), true);
+});
+
+test('describes values for error messages', () => {
+  assert.equal(TypeValidator.describeValue('loud'), '"loud" (string)');
+  assert.equal(TypeValidator.describeValue([1]), '[1] (array)');
+  assert.equal(TypeValidator.describeValue(undefined), 'undefined');
+  assert.equal(TypeValidator.describeValue('x'.repeat(60)).length, 50 + ' (string)'.length);
+});
+
+test('lets calls omit optional and default-valued parameters', async () => {
+  const { moduleManager } = scripts;
+
+  assert.equal((await moduleManager.executeFunction('shop.order("tea")')).result, 'tea small');
+  assert.equal(
+    (await moduleManager.executeFunction('shop.order("tea", "large", ["milk"])')).result,
+    'tea large milk'
+  );
+  assert.equal(
+    (await moduleManager.executeFunction('shop.total({ tea: 3, cake: 4 }, 1, 1)')).result,
+    '5'
+  );
+});
+
+test('reports arguments that do not match their parameters', async () => {
+  const { moduleManager } = scripts;
+  const error = async (callString: string) =>
+    (await moduleManager.executeFunction(callString)).error;
+
+  assert.equal(await error('shop.order()'), "Missing required parameter 'item' (string)");
+  assert.equal(
+    await error('shop.order("tea", "medium")'),
+    `Invalid parameter 'size': expected 'small' | 'large', got "medium" (string)`
+  );
+  assert.equal(
+    await error('shop.order("tea", "small", [], 1)'),
+    'Too many arguments. Expected 1-3, got 4'
+  );
+  assert.equal(
+    await error('shop.total({ tea: "3" }, 1)'),
+    `Invalid parameter 'prices': expected Record<string, number>, got {"tea":"3"} (object)`
+  );
+  assert.equal(
+    await error('shop.total({}, 1, "2")'),
+    `Invalid parameter '...discounts': expected number[], got [1,"2"] (array)`
+  );
+});
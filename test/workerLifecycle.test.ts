@@ -0,0 +1,91 @@
+/**
+ * dispose() hooks of modules on workers that are recycled after a call
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { useScripts } from './scriptFixture';
+
+const disposeLog = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'dispose-')), 'log');
+
+before(async () => {
+  const { CONFIG } = await import('../src/utils/config');
+  CONFIG.LIFECYCLE_HOOK_TIMEOUT_MS = 300;
+});
+
+after(() => fs.rmSync(path.dirname(disposeLog), { recursive: true, force: true }));
+
+const scripts = useScripts({
+  'waiter.ts': `
+import fs from 'fs';
+
+export const executionLimits = {
+  functions: {
+    wait: { timeoutMs: 300 },
+    spin: { timeoutMs: 300, maxCpuMs: 300 },
+  },
+};
+
+export function dispose(): void {
+  fs.appendFileSync(${JSON.stringify(disposeLog)}, 'disposed\\n');
+}
+
+export function wait(): Promise<void> {
+  return new Promise(() => {});
+}
+
+export function spin(): void {
+  for (;;) {}
+}
+
+export function ping(): string {
+  return 'pong';
+}
+`,
+});
+
+/**
+ * Number of dispose() calls once no more arrive for a while
+ */
+async function settledDisposeCount(): Promise<number> {
+  const count = () =>
+    (fs.existsSync(disposeLog) ? fs.readFileSync(disposeLog, 'utf8') : '')
+      .split('\n')
+      .filter(Boolean).length;
+
+  let previous = -1;
+  while (previous !== count()) {
+    previous = count();
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  return previous;
+}
+
+test('runs dispose() on a worker recycled after a call timed out', async () => {
+  const response = await scripts.moduleManager.executeFunction('waiter.wait()');
+  assert.equal(response.code, 'EXECUTION_TIMEOUT');
+  assert.equal(await settledDisposeCount(), 1);
+});
+
+test('runs dispose() on a worker recycled after a call was cancelled', async () => {
+  assert.equal((await scripts.moduleManager.executeFunction('waiter.ping()')).result, 'pong');
+
+  const controller = new AbortController();
+  const pending = scripts.moduleManager.executeFunction('waiter.wait()', {
+    signal: controller.signal,
+  });
+  setTimeout(() => controller.abort(), 100);
+
+  assert.equal((await pending).error, 'Execution cancelled');
+  assert.equal(await settledDisposeCount(), 2);
+});
+
+test('terminates a busy worker that cannot run dispose()', async () => {
+  const response = await scripts.moduleManager.executeFunction('waiter.spin()');
+  assert.equal(response.error, 'Function execution timed out after 300ms');
+  assert.equal((await scripts.moduleManager.executeFunction('waiter.ping()')).result, 'pong');
+  assert.equal(await settledDisposeCount(), 2);
+});
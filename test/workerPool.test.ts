@@ -0,0 +1,91 @@
+/**
+ * Keeping class instances alive while the worker pool recycles workers, with
+ * the pool limited to a single worker
+ */
+
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+import { useScripts } from './scriptFixture';
+
+before(async () => {
+  const { CONFIG } = await import('../src/utils/config');
+  CONFIG.WORKER_POOL_SIZE = 1;
+});
+
+const scripts = useScripts({
+  'counter.ts': `
+export const executionLimits = {
+  functions: { spin: { timeoutMs: 300, maxCpuMs: 300 } },
+};
+
+export default class Counter {
+  constructor(private count: number) {}
+
+  increment(): number {
+    return ++this.count;
+  }
+
+  spin(): void {
+    for (;;) {}
+  }
+}
+`,
+  'big.ts': `
+export const executionLimits = {
+  maxHeapMb: 96,
+  functions: { spin: { timeoutMs: 300, maxCpuMs: 300 } },
+};
+
+export function size(): number {
+  return 96;
+}
+
+export function spin(): void {
+  for (;;) {}
+}
+`,
+});
+
+/**
+ * Result or error of a call, with the error code
+ */
+async function call(callString: string): Promise<string | undefined> {
+  const response = await scripts.moduleManager.executeFunction(callString);
+  return response.error === undefined
+    ? response.result
+    : `${response.error}${response.code ? ` (${response.code})` : ''}`;
+}
+
+test('keeps instances when calls need a worker with another heap limit', async () => {
+  assert.equal(await call('counter.new("c1", 1)'), 'c1');
+  assert.equal(await call('big.size()'), '96');
+  assert.equal(await call('c1.increment()'), '2');
+  assert.equal(await call('big.size()'), '96');
+  assert.equal(await call('c1.increment()'), '3');
+});
+
+test('keeps instances when another call is stopped for its limits', async () => {
+  assert.equal(
+    await call('big.spin()'),
+    'Function execution timed out after 300ms (EXECUTION_TIMEOUT)'
+  );
+  assert.equal(await call('c1.increment()'), '4');
+});
+
+test('reports instances lost with their worker', async () => {
+  assert.equal(
+    await call('c1.spin()'),
+    'Function execution timed out after 300ms (EXECUTION_TIMEOUT)'
+  );
+
+  const lost = "Instance 'c1' was lost with its worker: Function execution timed out after 300ms";
+  assert.equal(await call('c1.increment()'), `${lost} (INSTANCE_LOST)`);
+  assert.deepEqual(await scripts.request('DELETE', '/api/instances/c1'), {
+    status: 410,
+    body: { error: lost },
+  });
+  assert.equal(await call('c2.increment()'), 'Function c2.increment not found');
+
+  assert.equal(await call('counter.new("c1", 10)'), 'c1');
+  assert.equal(await call('c1.increment()'), '11');
+});